@@ -0,0 +1,45 @@
+// Entry point for the SSH_ASKPASS helper, runs as a standalone node process spawned by ssh.
+// It must not import vscode, it only relays the prompt to the extension over the IPC handle.
+
+import * as net from 'net';
+
+function fatal(err: unknown): void {
+    console.error('Missing or invalid credentials.');
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+}
+
+function main(argv: string[]): void {
+    const handle = process.env['OPENREMOTESSH_ASKPASS_HANDLE'];
+    if (!handle) {
+        return fatal('Missing handle');
+    }
+
+    // ssh passes the prompt as the only argument
+    const prompt = argv.slice(2).join(' ');
+
+    const socket = net.connect(handle, () => {
+        socket.write(JSON.stringify({ prompt }) + '\n');
+    });
+
+    let data = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+        data += chunk;
+    });
+    socket.on('end', () => {
+        try {
+            const { response } = JSON.parse(data);
+            if (typeof response !== 'string') {
+                // Prompt was cancelled by the user
+                process.exit(1);
+            }
+            process.stdout.write(response + '\n', () => process.exit(0));
+        } catch (err) {
+            fatal(err);
+        }
+    });
+    socket.on('error', fatal);
+}
+
+main(process.argv);
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { isWindows } from '../common/platform';
+
+export type AskpassHandler = (prompt: string) => Promise<string | undefined>;
+
+const UNIX_ASKPASS_SCRIPT = `#!/bin/sh
+ELECTRON_RUN_AS_NODE="1" "$OPENREMOTESSH_ASKPASS_NODE" "$OPENREMOTESSH_ASKPASS_MAIN" "$@"
+`;
+
+const WINDOWS_ASKPASS_SCRIPT = `@ECHO off
+set ELECTRON_RUN_AS_NODE=1
+"%OPENREMOTESSH_ASKPASS_NODE%" "%OPENREMOTESSH_ASKPASS_MAIN%" %*
+`;
+
+function getIPCHandlePath(id: string): string {
+    if (isWindows) {
+        return `\\\\.\\pipe\\openremotessh-askpass-${id}-sock`;
+    }
+
+    return path.join(os.tmpdir(), `openremotessh-askpass-${id}.sock`);
+}
+
+/**
+ * Listens on a local IPC handle for prompts sent by the askpass helper script that ssh runs
+ * through `SSH_ASKPASS`, and answers them using the given handler.
+ * Prompts are answered one at a time so only one input box is shown.
+ */
+export class AskpassServer implements vscode.Disposable {
+    private server: net.Server | undefined;
+    private ipcHandlePath = getIPCHandlePath(crypto.randomBytes(8).toString('hex'));
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly storageUri: vscode.Uri,
+        private readonly handler: AskpassHandler
+    ) {
+    }
+
+    /**
+     * Starts listening and returns the environment variables that must be set for ssh
+     */
+    async start(): Promise<Record<string, string>> {
+        const askpassScript = await this.writeAskpassScript();
+
+        this.server = net.createServer(socket => this.onConnection(socket));
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.ipcHandlePath, () => resolve());
+        });
+
+        return {
+            SSH_ASKPASS: askpassScript,
+            // Older ssh versions only use SSH_ASKPASS if DISPLAY is set
+            SSH_ASKPASS_REQUIRE: 'force',
+            DISPLAY: process.env['DISPLAY'] || 'openremotessh:0',
+            OPENREMOTESSH_ASKPASS_NODE: process.execPath,
+            OPENREMOTESSH_ASKPASS_MAIN: vscode.Uri.joinPath(this.extensionUri, 'out', 'askpass', 'askpassMain.js').fsPath,
+            OPENREMOTESSH_ASKPASS_HANDLE: this.ipcHandlePath
+        };
+    }
+
+    private async writeAskpassScript(): Promise<string> {
+        await fs.promises.mkdir(this.storageUri.fsPath, { recursive: true });
+        const scriptPath = path.join(this.storageUri.fsPath, isWindows ? 'askpass.bat' : 'askpass.sh');
+        await fs.promises.writeFile(scriptPath, isWindows ? WINDOWS_ASKPASS_SCRIPT : UNIX_ASKPASS_SCRIPT, { mode: 0o755 });
+        return scriptPath;
+    }
+
+    private onConnection(socket: net.Socket) {
+        let data = '';
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk) => {
+            data += chunk;
+            const newLineIdx = data.indexOf('\n');
+            if (newLineIdx < 0) {
+                return;
+            }
+
+            let prompt = '';
+            try {
+                prompt = JSON.parse(data.substring(0, newLineIdx)).prompt;
+            } catch {
+                socket.end(JSON.stringify({}));
+                return;
+            }
+
+            this.queue = this.queue.then(async () => {
+                let response: string | undefined;
+                try {
+                    response = await this.handler(prompt);
+                } catch {
+                    response = undefined;
+                }
+                socket.end(JSON.stringify({ response }));
+            });
+        });
+        socket.on('error', () => { });
+    }
+
+    dispose() {
+        this.server?.close();
+        this.server = undefined;
+        if (!isWindows) {
+            fs.promises.rm(this.ipcHandlePath, { force: true }).catch(() => { });
+        }
+    }
+}
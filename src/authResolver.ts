@@ -1,17 +1,130 @@
 import * as vscode from 'vscode';
 import Log from './common/logger';
 import SSHDestination from './ssh/sshDestination';
-import SSHConnection from './ssh/sshConnection';
-import { findRandomPort } from './common/ports';
+import SSHConnection, { probeLocalPort, SSHCancelledError, SSHTunnelConfig } from './ssh/sshConnection';
+import SSHConfiguration, { getCustomSSHConfigPath, SSHHostConfiguration } from './ssh/sshConfig';
+import { addHostToHostFile, checkHostKey, getHostFileEntries, getHostFileEntryName, getHostKeyFingerprint, getKnownHostsFiles, HostKey, removeHostFromHostFile, scanHostKeys } from './ssh/hostfile';
+import { findFreePort, findRandomPort } from './common/ports';
+import { isWindows } from './common/platform';
 import { disposeAll } from './common/disposable';
-import { installCodeServer } from './serverSetup';
+import { untildify } from './common/files';
+import { getVSCodeServerConfig } from './serverConfig';
+import { installCodeServer, LocalServerDownloadMode, ServerInstallError, ServerInstallProgress, ServerInstallResult, ServerInstallStep } from './serverSetup';
+import { AskpassServer } from './askpass/askpassServer';
+import { getHostSettingsOverrides } from './hostSettings';
+import { SharedConnectionLease } from './broker/brokerClient';
+import { killServers } from './serverManagement';
 
 export const REMOTE_SSH_AUTHORITY = 'ssh-remote';
 
+const SERVER_TUNNEL_NAME = 'vscode-server';
+
+// A connection through the server tunnel that stays open this long reached the server
+const SERVER_PROBE_GRACE_TIME = 300;
+
+// Privileged ports are forwarded to a higher local port instead, e.g. 80 -> 8080
+const PRIVILEGED_PORT_OFFSET = 8000;
+
+const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Preferred host key types, same order as the OpenSSH defaults
+const HOST_KEY_TYPES_ORDER = ['ssh-ed25519', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521', 'rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa'];
+
+const INSTALL_STEP_MESSAGES: Record<ServerInstallStep, string> = {
+    platform: 'Detecting remote platform',
+    download: 'Downloading server',
+    upload: 'Uploading server',
+    extract: 'Extracting server',
+    start: 'Starting server',
+    listen: 'Waiting for server to listen'
+};
+
 export function getRemoteAuthority(host: string) {
     return `${REMOTE_SSH_AUTHORITY}+${host}`;
 }
 
+export interface ResolverSettings {
+    serverDownloadUrlTemplate: string | undefined;
+    serverChecksumUrlTemplate: string | undefined;
+    serverChecksums: Record<string, string>;
+    defaultExtensions: string[];
+    captureEnvVariables: string[];
+    remoteEnv: Record<string, string>;
+    remotePlatform: string | undefined;
+    serverDataFolderName: string | undefined;
+    remoteServerListenOnSocket: boolean;
+    connectTimeout: number;
+    localServerDownload: LocalServerDownloadMode;
+    serverCacheDirectory: string;
+    shareConnection: boolean;
+}
+
+// Settings of the server on a host, for the commands managing it
+export interface ServerHost {
+    platform: string | undefined;
+    serverDataFolderName: string;
+    remoteServerListenOnSocket: boolean;
+}
+
+// Everything needed to establish the same connection again after it's lost
+interface ConnectionState {
+    sshDest: SSHDestination;
+    settings: ResolverSettings;
+    askpassEnv: Record<string, string>;
+    localPort: number;
+    connectionToken: string;
+    serverListeningOn: number | string;
+    serverLogFile: string;
+    serverPlatform: string;
+}
+
+// Connection of a window with the server it reaches through it
+interface EstablishedConnection {
+    sshConnection: SSHConnection;
+    serverResult: ServerInstallResult;
+    tunnel: TunnelInfo;
+    // Set when the connection is shared with the other windows connected to the host
+    lease: SharedConnectionLease | undefined;
+}
+
+export interface ConnectionStatus {
+    state: 'connected' | 'reconnecting' | 'disconnected';
+    sshDest: SSHDestination;
+    /** Whether the tunnel to the server is open */
+    serverTunnel: boolean;
+    forwardedPorts: number;
+    reconnectAttempt?: number;
+}
+
+class ForwardedPortTunnel implements vscode.Tunnel {
+    private readonly _onDidDispose = new vscode.EventEmitter<void>();
+    readonly onDidDispose = this._onDidDispose.event;
+
+    readonly localAddress: { host: string; port: number };
+    private disposed = false;
+
+    constructor(
+        readonly name: string,
+        readonly remoteAddress: { host: string; port: number },
+        localPort: number,
+        private readonly onDispose: (tunnel: ForwardedPortTunnel) => Promise<void>
+    ) {
+        this.localAddress = { host: 'localhost', port: localPort };
+    }
+
+    async dispose() {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this._onDidDispose.fire();
+        this._onDidDispose.dispose();
+        await this.onDispose(this);
+    }
+}
+
 class TunnelInfo implements vscode.Disposable {
     constructor(
         readonly localPort: number,
@@ -27,12 +140,36 @@ class TunnelInfo implements vscode.Disposable {
 
 export class RemoteSSHResolver implements vscode.RemoteAuthorityResolver, vscode.Disposable {
     private sshConnection: SSHConnection | undefined;
+    private sharedConnectionLease: SharedConnectionLease | undefined;
+    // Answers the prompts of the current connection, kept while reconnecting as it's reused
+    private askpassServer: AskpassServer | undefined;
+    private connectingConnection: SSHConnection | undefined;
+    // Cancels the resolve or reconnection in progress
+    private connectCancellation: vscode.CancellationTokenSource | undefined;
+    private connectionState: ConnectionState | undefined;
     private tunnels: TunnelInfo[] = [];
+    private forwardedTunnels: ForwardedPortTunnel[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private reconnecting = false;
+    private connectionStatus: ConnectionStatus | undefined;
+
+    private readonly _onDidChangeConnectionStatus = new vscode.EventEmitter<ConnectionStatus | undefined>();
+    readonly onDidChangeConnectionStatus = this._onDidChangeConnectionStatus.event;
+
+    private authenticationCancelled = false;
+    private triedStoredPassphrases = new Set<string>();
+
+    readonly tunnelFeatures = {
+        elevation: false,
+        public: false,
+        privacyOptions: []
+    };
 
     constructor(
         readonly context: vscode.ExtensionContext,
         readonly logger: Log
     ) {
+        this.disposables.push(this._onDidChangeConnectionStatus);
     }
 
     resolve(authority: string, context: vscode.RemoteAuthorityResolverContext): Thenable<vscode.ResolverResult> {
@@ -43,107 +180,814 @@ export class RemoteSSHResolver implements vscode.RemoteAuthorityResolver, vscode
 
         this.logger.info(`Resolving ssh remote authority '${authority}' (attempt #${context.resolveAttempt})`);
 
+        // A new resolve attempt supersedes the one still in progress
+        if (this.connectCancellation) {
+            this.logger.info('Cancelling the previous connection attempt');
+        }
+        const cancellation = this.startConnectOperation();
+
         const sshDest = SSHDestination.parseEncoded(dest);
 
-        // Get configuration settings
-        const remoteSSHconfig = vscode.workspace.getConfiguration('remote.SSH');
-        const serverDownloadUrlTemplate = remoteSSHconfig.get<string>('serverDownloadUrlTemplate');
-        const defaultExtensions = remoteSSHconfig.get<string[]>('defaultExtensions', []);
-        const remotePlatformMap = remoteSSHconfig.get<Record<string, string>>('remotePlatform', {});
-        const remoteServerListenOnSocket = remoteSSHconfig.get<boolean>('remoteServerListenOnSocket', false);
-        const connectTimeout = remoteSSHconfig.get<number>('connectTimeout', 60);
+        const settings = this.getResolverSettings(sshDest);
 
         return vscode.window.withProgress({
-            title: `Setting up SSH Host ${sshDest.hostname}`,
+            title: `Setting up SSH Host ${sshDest.toDisplayString()}`,
             location: vscode.ProgressLocation.Notification,
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (progress, progressToken) => {
+            this.authenticationCancelled = false;
+            const cancelListener = progressToken.onCancellationRequested(() => cancellation.cancel());
+            const token = cancellation.token;
             try {
-                // Create SSH connection
-                this.sshConnection = new SSHConnection({
-                    host: sshDest.hostname,
-                    port: sshDest.port,
-                    username: sshDest.user || process.env["USER"] || "",
-                    connectTimeout
-                }, this.logger);
-
-                // Detect platform
-                let platform = remotePlatformMap[sshDest.hostname];
-                if (!platform) {
-                    try {
-                        const result = await this.sshConnection.exec('uname -s');
-                        if (result.stdout.includes('Linux')) {
-                            platform = 'linux';
-                        } else if (result.stdout.includes('Darwin')) {
-                            platform = 'macos';
-                        } else if (result.stdout.includes('Windows') || result.stdout.includes('MINGW') || result.stdout.includes('MSYS')) {
-                            platform = 'windows';
-                        }
-                    } catch (err) {
-                        this.logger.error(`Failed to detect platform: ${err}`);
-                    }
-                }
-
-                // Install and start the server
-                const serverResult = await installCodeServer(
-                    this.sshConnection,
-                    serverDownloadUrlTemplate,
-                    defaultExtensions,
-                    [],
-                    platform,
-                    remoteServerListenOnSocket,
-                    this.logger
-                );
+                // A new resolve replaces any previous connection
+                this.closeConnection();
+                this.setConnectionStatus(undefined);
 
-                // Create tunnel to the server
-                let tunnel: TunnelInfo;
-                if (typeof serverResult.listeningOn === 'number') {
-                    // Server is listening on a port
-                    const localPort = await findRandomPort();
-                    await this.sshConnection.addTunnel({
-                        localPort,
-                        remoteAddr: 'localhost',
-                        remotePort: serverResult.listeningOn
-                    });
-                    tunnel = new TunnelInfo(localPort, serverResult.listeningOn, []);
-                } else {
-                    // Server is listening on a socket
-                    const localPort = await findRandomPort();
-                    await this.sshConnection.addTunnel({
-                        localPort,
-                        remoteSocketPath: serverResult.listeningOn
-                    });
-                    tunnel = new TunnelInfo(localPort, serverResult.listeningOn, []);
-                }
+                // Relay password, passphrase and keyboard-interactive prompts to the UI
+                this.askpassServer = new AskpassServer(this.context.extensionUri, this.context.globalStorageUri, prompt => this.handleAskpassPrompt(prompt, sshDest));
+                const askpassEnv = await this.askpassServer.start();
 
+                progress.report({ message: 'Connecting' });
+                const { sshConnection, serverResult, tunnel, lease } = await this.establishConnection(sshDest, settings, askpassEnv, undefined, {
+                    report: (step, percent) => progress.report({ message: percent !== undefined ? `${INSTALL_STEP_MESSAGES[step]} (${percent}%)` : INSTALL_STEP_MESSAGES[step] })
+                }, token);
                 this.tunnels.push(tunnel);
 
+                this.sshConnection = sshConnection;
+                this.sharedConnectionLease = lease;
+                this.connectionState = { sshDest, settings, askpassEnv, localPort: tunnel.localPort, connectionToken: serverResult.connectionToken, serverListeningOn: serverResult.listeningOn, serverLogFile: serverResult.logFile, serverPlatform: serverResult.platform };
+                this.watchConnection(sshConnection, lease);
+                this.setConnectionStatus({ state: 'connected', sshDest, serverTunnel: true, forwardedPorts: this.forwardedTunnels.length });
+
+                if (Object.keys(serverResult.env).length) {
+                    this.logger.info(`Extension host environment from the remote: ${Object.keys(serverResult.env).join(', ')}`);
+                }
+
                 // Return the resolver result
                 return {
                     host: 'localhost',
                     port: tunnel.localPort,
-                    connectionToken: serverResult.connectionToken
+                    connectionToken: serverResult.connectionToken,
+                    extensionHostEnv: serverResult.env
                 };
             } catch (err) {
+                if (err instanceof vscode.RemoteAuthorityResolverError) {
+                    throw err;
+                }
+                if (token.isCancellationRequested) {
+                    this.logger.info('Connection cancelled by the user');
+                    throw vscode.RemoteAuthorityResolverError.NotAvailable('Connection cancelled', true);
+                }
+                if (this.authenticationCancelled) {
+                    this.logger.info('Authentication cancelled by the user');
+                    throw vscode.RemoteAuthorityResolverError.NotAvailable('Authentication cancelled', true);
+                }
+                if (err instanceof ServerInstallError) {
+                    this.logger.error(`Failed to install the vscode server (${err.code}): ${err.message}`);
+                    this.showServerInstallError(err);
+                    throw vscode.RemoteAuthorityResolverError.NotAvailable(err.message, true);
+                }
+
                 this.logger.error(`Failed to resolve SSH authority: ${err}`);
                 throw new vscode.RemoteAuthorityResolverError(
                     err instanceof Error ? err.message : String(err)
                 );
+            } finally {
+                cancelListener.dispose();
+                this.endConnectOperation(cancellation);
             }
         });
     }
 
-    dispose() {
+    private startConnectOperation(): vscode.CancellationTokenSource {
+        this.connectCancellation?.cancel();
+        this.connectCancellation = new vscode.CancellationTokenSource();
+        return this.connectCancellation;
+    }
+
+    private endConnectOperation(cancellation: vscode.CancellationTokenSource) {
+        if (this.connectCancellation === cancellation) {
+            this.connectCancellation = undefined;
+        }
+        cancellation.dispose();
+    }
+
+    /**
+     * Global settings with the overrides from `remote.SSH.hosts` matching `sshDest` applied
+     */
+    getResolverSettings(sshDest: SSHDestination): ResolverSettings {
+        const remoteSSHconfig = vscode.workspace.getConfiguration('remote.SSH');
+        const remotePlatformMap = remoteSSHconfig.get<Record<string, string>>('remotePlatform', {});
+        const overrides = getHostSettingsOverrides(sshDest, this.logger);
+        return {
+            serverDownloadUrlTemplate: overrides.serverDownloadUrlTemplate ?? remoteSSHconfig.get<string>('serverDownloadUrlTemplate'),
+            serverChecksumUrlTemplate: overrides.serverChecksumUrlTemplate ?? remoteSSHconfig.get<string>('serverChecksumUrlTemplate'),
+            serverChecksums: remoteSSHconfig.get<Record<string, string>>('serverChecksums', {}),
+            defaultExtensions: overrides.defaultExtensions ?? remoteSSHconfig.get<string[]>('defaultExtensions', []),
+            captureEnvVariables: overrides.captureEnvVariables ?? remoteSSHconfig.get<string[]>('captureEnvVariables', []),
+            remoteEnv: overrides.remoteEnv ?? remoteSSHconfig.get<Record<string, string>>('remoteEnv', {}),
+            remotePlatform: overrides.remotePlatform ?? (remotePlatformMap[sshDest.hostname] || (sshDest.alias && remotePlatformMap[sshDest.alias]) || undefined),
+            serverDataFolderName: overrides.serverDataFolderName,
+            remoteServerListenOnSocket: overrides.remoteServerListenOnSocket ?? remoteSSHconfig.get<boolean>('remoteServerListenOnSocket', false),
+            connectTimeout: overrides.connectTimeout ?? remoteSSHconfig.get<number>('connectTimeout', 60),
+            localServerDownload: overrides.localServerDownload ?? remoteSSHconfig.get<LocalServerDownloadMode>('localServerDownload', 'auto'),
+            serverCacheDirectory: untildify(remoteSSHconfig.get<string>('serverCacheDirectory', '')) || vscode.Uri.joinPath(this.context.globalStorageUri, 'serverCache').fsPath,
+            // Win32-OpenSSH doesn't implement ControlMaster
+            shareConnection: !isWindows && (overrides.shareConnection ?? remoteSSHconfig.get<boolean>('shareConnection', true))
+        };
+    }
+
+    getConnectionStatus(): ConnectionStatus | undefined {
+        return this.connectionStatus;
+    }
+
+    private setConnectionStatus(status: ConnectionStatus | undefined) {
+        this.connectionStatus = status;
+        this._onDidChangeConnectionStatus.fire(status);
+    }
+
+    private updateConnectionStatus(changes: Partial<ConnectionStatus>) {
+        if (this.connectionStatus) {
+            this.setConnectionStatus({ ...this.connectionStatus, ...changes });
+        }
+    }
+
+    /**
+     * Round-trip time in milliseconds to the connected host, undefined if not connected
+     */
+    async measureLatency(): Promise<number | undefined> {
+        return this.sshConnection?.ping();
+    }
+
+    /**
+     * Drops the current connection and establishes it again, keeping the forwarded ports
+     */
+    async reconnectNow() {
+        if (!this.connectionState || this.reconnecting) {
+            return;
+        }
+        this.logger.info(`Reconnecting to ${this.connectionState.sshDest.toDisplayString()} on request`);
+        await this.reconnect();
+    }
+
+    /**
+     * Destination of the host this window is connected to
+     */
+    getConnectedDestination(): SSHDestination | undefined {
+        return this.connectionState?.sshDest;
+    }
+
+    /**
+     * Log file of the server this window is connected to and the platform it runs on
+     */
+    getConnectedServerLog(): { sshDest: SSHDestination; logFile: string; platform: string } | undefined {
+        if (!this.connectionState) {
+            return undefined;
+        }
+        const { sshDest, serverLogFile, serverPlatform } = this.connectionState;
+        return { sshDest, logFile: serverLogFile, platform: serverPlatform };
+    }
+
+    /**
+     * Runs `callback` over the connection of this window if it's connected to `sshDest`,
+     * otherwise over a new connection that is closed afterwards
+     */
+    async withConnection<T>(sshDest: SSHDestination, callback: (sshConnection: SSHConnection, serverHost: ServerHost) => Promise<T>): Promise<T> {
+        const isConnected = this.sshConnection && this.connectionState?.sshDest.toEncodedString() === sshDest.toEncodedString();
+        const settings = isConnected ? this.connectionState!.settings : this.getResolverSettings(sshDest);
+        const serverHost: ServerHost = {
+            platform: settings.remotePlatform,
+            serverDataFolderName: settings.serverDataFolderName || (await getVSCodeServerConfig()).serverDataFolderName,
+            remoteServerListenOnSocket: settings.remoteServerListenOnSocket
+        };
+        if (isConnected) {
+            return callback(this.sshConnection!, serverHost);
+        }
+
+        const askpassServer = new AskpassServer(this.context.extensionUri, this.context.globalStorageUri, prompt => this.handleAskpassPrompt(prompt, sshDest));
+        let sshConnection: SSHConnection | undefined;
+        try {
+            this.authenticationCancelled = false;
+            const askpassEnv = await askpassServer.start();
+            sshConnection = await this.createConnection(sshDest, settings, askpassEnv);
+            return await callback(sshConnection, serverHost);
+        } finally {
+            sshConnection?.close().catch(() => { });
+            askpassServer.dispose();
+        }
+    }
+
+    private async showServerInstallError(err: ServerInstallError) {
+        const showLog = 'Show Log';
+        const openSettings = 'Open Settings';
+        const actions = err.setting ? [showLog, openSettings] : [showLog];
+        const action = await vscode.window.showErrorMessage(err.message, { modal: true }, ...actions);
+        if (action === showLog) {
+            this.logger.show();
+        } else if (action === openSettings) {
+            vscode.commands.executeCommand('workbench.action.openSettings', err.setting);
+        }
+    }
+
+    /**
+     * Creates a connection to `sshDest` that isn't connected yet, for probes that run ssh on their own
+     * like `getEffectiveConfig`. The host key isn't verified and ssh can't prompt.
+     */
+    async createUnconnectedConnection(sshDest: SSHDestination): Promise<SSHConnection> {
+        const { sshHostConfig, port } = await this.getHostConfiguration(sshDest);
+        return this.newSSHConnection(sshDest, sshHostConfig, port, this.getResolverSettings(sshDest).connectTimeout);
+    }
+
+    private async getHostConfiguration(sshDest: SSHDestination): Promise<{ sshHostConfig: SSHHostConfiguration; port: number | undefined }> {
+        // Values given in the destination take precedence over the ones from the ssh config file
+        const sshConfig = await SSHConfiguration.loadFromFS();
+        const sshHostConfig = sshConfig.getHostConfiguration(sshDest.sshHost, sshDest.user);
+        const configPort = sshHostConfig['port']?.[0];
+        const port = sshDest.port || (configPort ? parseInt(configPort, 10) : undefined);
+        return { sshHostConfig, port };
+    }
+
+    private newSSHConnection(sshDest: SSHDestination, sshHostConfig: SSHHostConfiguration, port: number | undefined, connectTimeout: number, askpassEnv?: Record<string, string>, sharedControlPath?: string): SSHConnection {
+        return new SSHConnection({
+            host: sshDest.sshHost,
+            port,
+            username: sshDest.user || sshHostConfig['user']?.[0],
+            identity: sshDest.identity ? untildify(sshDest.identity) : sshHostConfig['identityfile'] ? untildify(sshHostConfig['identityfile'][0]) : undefined,
+            jumpHosts: sshDest.jumpHosts.map(jumpHost => ({
+                host: jumpHost.hostname,
+                port: jumpHost.port,
+                username: jumpHost.user,
+                identity: jumpHost.identity ? untildify(jumpHost.identity) : undefined
+            })),
+            configFile: getCustomSSHConfigPath(),
+            connectTimeout,
+            env: askpassEnv,
+            sharedControlPath
+        }, this.logger);
+    }
+
+    private async createConnection(sshDest: SSHDestination, settings: ResolverSettings, askpassEnv: Record<string, string>, token?: vscode.CancellationToken): Promise<SSHConnection> {
+        const { sshHostConfig, port } = await this.getHostConfiguration(sshDest);
+
+        await this.verifyHostKey(sshDest, sshHostConfig, port, settings.connectTimeout);
+
+        const sshConnection = this.newSSHConnection(sshDest, sshHostConfig, port, settings.connectTimeout, askpassEnv);
+        this.connectingConnection = sshConnection;
+        try {
+            await sshConnection.connect(token);
+        } catch (err) {
+            sshConnection.close().catch(() => { });
+            throw err;
+        } finally {
+            this.connectingConnection = undefined;
+        }
+
+        return sshConnection;
+    }
+
+    /**
+     * Connects to `sshDest` and starts the server, sharing the connection with the other windows connected
+     * to the host if enabled. The server tunnel is opened on `localPort` if given and it's free.
+     */
+    private async establishConnection(sshDest: SSHDestination, settings: ResolverSettings, askpassEnv: Record<string, string>, localPort: number | undefined, progress: ServerInstallProgress | undefined, token: vscode.CancellationToken): Promise<EstablishedConnection> {
+        if (settings.shareConnection) {
+            let lease: SharedConnectionLease | undefined;
+            try {
+                lease = await SharedConnectionLease.acquire(this.context.extensionUri, JSON.stringify([sshDest.toEncodedString(), settings]), this.logger, token);
+            } catch (err) {
+                if (token.isCancellationRequested) {
+                    throw err;
+                }
+                this.logger.error('Could not share the connection with other windows, using a connection for this window only', err);
+            }
+            if (lease) {
+                try {
+                    return await this.establishSharedConnection(lease, sshDest, settings, askpassEnv, localPort, progress, token);
+                } catch (err) {
+                    lease.dispose();
+                    throw err;
+                }
+            }
+        }
+
+        const sshConnection = await this.createConnection(sshDest, settings, askpassEnv, token);
+        try {
+            const { serverResult, tunnel } = await this.startServerWithTunnel(sshConnection, settings, localPort ?? await findRandomPort(), false, progress, token);
+            return { sshConnection, serverResult, tunnel, lease: undefined };
+        } catch (err) {
+            sshConnection.close().catch(() => { });
+            throw err;
+        }
+    }
+
+    /**
+     * Connects through the master connection of the broker, the first window starts the master and the
+     * server, the others reuse the tunnel to the server it published
+     */
+    private async establishSharedConnection(lease: SharedConnectionLease, sshDest: SSHDestination, settings: ResolverSettings, askpassEnv: Record<string, string>, localPort: number | undefined, progress: ServerInstallProgress | undefined, token: vscode.CancellationToken): Promise<EstablishedConnection> {
+        const { sshHostConfig, port } = await this.getHostConfiguration(sshDest);
+        const controlPath = lease.getControlPath();
+        const sshConnection = this.newSSHConnection(sshDest, sshHostConfig, port, settings.connectTimeout, askpassEnv, controlPath);
+        try {
+            if (!lease.isMasterRunning()) {
+                await this.verifyHostKey(sshDest, sshHostConfig, port, settings.connectTimeout);
+            }
+            await lease.startMaster({
+                masterArgs: sshConnection.getMasterArgs(controlPath),
+                checkArgs: sshConnection.getControlArgs(controlPath, 'check'),
+                exitArgs: sshConnection.getControlArgs(controlPath, 'exit'),
+                env: askpassEnv,
+                timeout: settings.connectTimeout
+            }, token);
+            await sshConnection.connect(token);
+
+            let server = await lease.claimServer(undefined, token);
+            while (server && await probeLocalPort(server.localPort, SERVER_PROBE_GRACE_TIME) !== 'ready') {
+                this.logger.info(`Shared server tunnel on local port ${server.localPort} is not reachable anymore`);
+                server = await lease.claimServer(server.localPort, token);
+            }
+            if (server) {
+                this.logger.info(`Using the server tunnel shared by another window on local port ${server.localPort}`);
+                return { sshConnection, serverResult: server.result, tunnel: new TunnelInfo(server.localPort, server.result.listeningOn, []), lease };
+            }
+
+            // This window starts the server, the others wait until it's published
+            try {
+                const tunnelPort = localPort && await findFreePort(localPort, 1, 1000) ? localPort : await findRandomPort();
+                // The tunnel belongs to the master connection and outlives this window
+                const { serverResult, tunnel } = await this.startServerWithTunnel(sshConnection, settings, tunnelPort, true, progress, token);
+                lease.publishServer({ localPort: tunnelPort, result: serverResult });
+                return { sshConnection, serverResult, tunnel, lease };
+            } catch (err) {
+                lease.releaseServer();
+                throw err;
+            }
+        } catch (err) {
+            sshConnection.close().catch(() => { });
+            throw err;
+        }
+    }
+
+    /**
+     * Starts the server and opens the tunnel to it. If the server socket can't be reached through the tunnel,
+     * e.g. the SSH server refuses forwarding unix sockets, the server is restarted listening on a port.
+     */
+    private async startServerWithTunnel(sshConnection: SSHConnection, settings: ResolverSettings, localPort: number, keepOpen: boolean, progress: ServerInstallProgress | undefined, token: vscode.CancellationToken): Promise<{ serverResult: ServerInstallResult; tunnel: TunnelInfo }> {
+        const serverResult = await this.startServer(sshConnection, settings, progress, token);
+        if (token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+        if (typeof serverResult.listeningOn === 'number') {
+            return { serverResult, tunnel: await this.openServerTunnel(sshConnection, serverResult, localPort, keepOpen, token) };
+        }
+
+        // ssh only connects to the socket once a connection comes in through the tunnel
+        const tunnel = await this.openServerTunnel(sshConnection, serverResult, localPort, keepOpen, token);
+        if (await probeLocalPort(localPort, SERVER_PROBE_GRACE_TIME) !== 'closed') {
+            return { serverResult, tunnel };
+        }
+        await sshConnection.closeTunnel(SERVER_TUNNEL_NAME);
+
+        this.logger.warn(`Server socket ${serverResult.listeningOn} can't be reached through the tunnel, the SSH server may refuse forwarding unix sockets (AllowStreamLocalForwarding). Restarting the server listening on a port`);
+        const { commit, serverDataFolderName } = await getVSCodeServerConfig();
+        await killServers(sshConnection, {
+            platform: settings.remotePlatform,
+            serverDataFolderName: settings.serverDataFolderName || serverDataFolderName,
+            remoteServerListenOnSocket: false
+        }, [commit]);
+        const portServerResult = await this.startServer(sshConnection, { ...settings, remoteServerListenOnSocket: false }, progress, token);
+        return { serverResult: portServerResult, tunnel: await this.openServerTunnel(sshConnection, portServerResult, localPort, keepOpen, token) };
+    }
+
+    private async startServer(sshConnection: SSHConnection, settings: ResolverSettings, progress?: ServerInstallProgress, token?: vscode.CancellationToken): Promise<ServerInstallResult> {
+        // Detect platform
+        let platform = settings.remotePlatform;
+        if (!platform) {
+            progress?.report('platform');
+            try {
+                const result = await sshConnection.exec('uname -s', undefined, { token });
+                if (result.stdout.includes('Linux')) {
+                    platform = 'linux';
+                } else if (result.stdout.includes('Darwin')) {
+                    platform = 'macos';
+                } else if (result.stdout.includes('Windows') || result.stdout.includes('MINGW') || result.stdout.includes('MSYS')) {
+                    platform = 'windows';
+                }
+            } catch (err) {
+                if (err instanceof SSHCancelledError) {
+                    throw err;
+                }
+                this.logger.error(`Failed to detect platform: ${err}`);
+            }
+        }
+
+        // Install and start the server
+        return installCodeServer(
+            sshConnection,
+            settings.serverDownloadUrlTemplate,
+            settings.defaultExtensions,
+            settings.captureEnvVariables,
+            settings.remoteEnv,
+            platform,
+            settings.serverDataFolderName,
+            settings.remoteServerListenOnSocket,
+            { mode: settings.localServerDownload, cacheDir: settings.serverCacheDirectory },
+            { urlTemplate: settings.serverChecksumUrlTemplate, pinned: settings.serverChecksums },
+            this.logger,
+            progress,
+            token
+        );
+    }
+
+    private async openServerTunnel(sshConnection: SSHConnection, serverResult: ServerInstallResult, localPort: number, keepOpen: boolean, token?: vscode.CancellationToken): Promise<TunnelInfo> {
+        if (typeof serverResult.listeningOn === 'number') {
+            // Server is listening on a port
+            await sshConnection.addTunnel({
+                name: SERVER_TUNNEL_NAME,
+                localPort,
+                remoteAddr: 'localhost',
+                remotePort: serverResult.listeningOn,
+                keepOpen
+            }, token);
+        } else {
+            // Server is listening on a socket, whether it can be reached is checked by the caller
+            await sshConnection.addTunnel({
+                name: SERVER_TUNNEL_NAME,
+                localPort,
+                remoteSocketPath: serverResult.listeningOn,
+                waitForRemote: false,
+                keepOpen
+            }, token);
+        }
+        return new TunnelInfo(localPort, serverResult.listeningOn, []);
+    }
+
+    private watchConnection(sshConnection: SSHConnection, lease: SharedConnectionLease | undefined) {
+        // The master connection of a shared connection is watched by the broker
+        lease?.onDidDisconnect(reason => {
+            if (lease === this.sharedConnectionLease) {
+                this.logger.error(`Shared SSH connection lost: ${reason}`);
+                this.reconnect();
+            }
+        });
+        // Only disconnects with an error are unexpected, closing a tunnel or the connection emits them without one
+        sshConnection.on('ssh:disconnect', (_conn: SSHConnection, payload?: { err?: Error }) => {
+            if (payload?.err && sshConnection === this.sshConnection) {
+                this.logger.error('SSH connection lost', payload.err);
+                this.reconnect();
+            }
+        });
+        sshConnection.on('tunnel:connect', (_conn: SSHConnection, payload?: { SSHTunnelConfig: SSHTunnelConfig }) => {
+            if (payload?.SSHTunnelConfig.name === SERVER_TUNNEL_NAME && sshConnection === this.sshConnection) {
+                this.updateConnectionStatus({ serverTunnel: true });
+            }
+        });
+        sshConnection.on('tunnel:disconnect', (_conn: SSHConnection, payload?: { SSHTunnelConfig: SSHTunnelConfig; err?: Error }) => {
+            if (!payload?.err || sshConnection !== this.sshConnection) {
+                return;
+            }
+
+            if (payload.SSHTunnelConfig.name === SERVER_TUNNEL_NAME) {
+                this.logger.error('SSH tunnel to the server lost', payload.err);
+                this.updateConnectionStatus({ serverTunnel: false });
+                this.reconnect();
+            } else {
+                const forwardedTunnel = this.forwardedTunnels.find(t => t.name === payload.SSHTunnelConfig.name);
+                if (forwardedTunnel) {
+                    this.logger.error(`Forwarded port ${forwardedTunnel.remoteAddress.port} closed`, payload.err);
+                    forwardedTunnel.dispose();
+                }
+            }
+        });
+    }
+
+    async tunnelFactory(tunnelOptions: vscode.TunnelOptions, tunnelCreationOptions: vscode.TunnelCreationOptions): Promise<vscode.Tunnel> {
+        if (!this.sshConnection) {
+            throw new Error('Not connected to SSH host');
+        }
+
+        const remoteAddress = { host: tunnelOptions.remoteAddress.host || 'localhost', port: tunnelOptions.remoteAddress.port };
+        const localPort = await this.findLocalPort(tunnelOptions.localAddressPort ?? remoteAddress.port, !!tunnelCreationOptions.elevationRequired);
+        // The same remote port can be forwarded to several local ports, each is a separate tunnel
+        const name = `forward-${localPort}:${remoteAddress.host}:${remoteAddress.port}`;
+
+        const forward = await this.sshConnection.addTunnel({
+            name,
+            localPort,
+            remoteAddr: remoteAddress.host,
+            remotePort: remoteAddress.port,
+            waitForRemote: false
+        });
+        this.logger.info(`Forwarded remote ${remoteAddress.host}:${remoteAddress.port} to local port ${forward.localPort}`);
+
+        const tunnel = new ForwardedPortTunnel(name, remoteAddress, forward.localPort!, t => this.closeForwardedTunnel(t));
+        this.forwardedTunnels.push(tunnel);
+        this.updateConnectionStatus({ forwardedPorts: this.forwardedTunnels.length });
+        return tunnel;
+    }
+
+    showCandidatePort(_host: string, port: number, _detail: string): Thenable<boolean> {
+        // Don't offer to forward the port of the server itself
+        return Promise.resolve(port !== this.connectionState?.serverListeningOn);
+    }
+
+    private async findLocalPort(port: number, elevationRequired: boolean): Promise<number> {
+        const startPort = elevationRequired || (!isWindows && port < 1024) ? port + PRIVILEGED_PORT_OFFSET : port;
+        const freePort = await findFreePort(startPort, 10, 1000);
+        return freePort || findRandomPort();
+    }
+
+    private async closeForwardedTunnel(tunnel: ForwardedPortTunnel) {
+        this.forwardedTunnels = this.forwardedTunnels.filter(t => t !== tunnel);
+        this.updateConnectionStatus({ forwardedPorts: this.forwardedTunnels.length });
+        await this.sshConnection?.closeTunnel(tunnel.name);
+        this.logger.info(`Closed forwarded port ${tunnel.remoteAddress.port}`);
+    }
+
+    /**
+     * Opens the forwarded ports again on the same local ports after reconnecting,
+     * the ones that can't be restored are disposed so they are removed from the Ports view
+     */
+    private async restoreForwardedTunnels(sshConnection: SSHConnection) {
+        for (const tunnel of [...this.forwardedTunnels]) {
+            try {
+                await sshConnection.addTunnel({
+                    name: tunnel.name,
+                    localPort: tunnel.localAddress.port,
+                    remoteAddr: tunnel.remoteAddress.host,
+                    remotePort: tunnel.remoteAddress.port,
+                    waitForRemote: false
+                });
+            } catch (err) {
+                this.logger.error(`Could not restore forwarded port ${tunnel.remoteAddress.port}`, err);
+                tunnel.dispose();
+            }
+        }
+    }
+
+    /**
+     * Reconnects with exponential backoff, the server install script is run again in case the
+     * server was restarted and the tunnel is opened on the same local port used by the window
+     */
+    private async reconnect() {
+        if (this.reconnecting || !this.connectionState) {
+            return;
+        }
+        this.reconnecting = true;
+
+        const { sshDest, settings, askpassEnv, localPort } = this.connectionState;
+        this.closeConnection(true);
+
+        const cancellation = this.startConnectOperation();
+        const token = cancellation.token;
+        try {
+            for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS && !token.isCancellationRequested; attempt++) {
+                this.setConnectionStatus({ state: 'reconnecting', sshDest, serverTunnel: false, forwardedPorts: this.forwardedTunnels.length, reconnectAttempt: attempt });
+                this.logger.info(`Reconnecting to ${sshDest.toDisplayString()} (attempt #${attempt})`);
+
+                this.authenticationCancelled = false;
+                try {
+                    const { sshConnection, serverResult, tunnel, lease } = await this.establishConnection(sshDest, settings, askpassEnv, localPort, undefined, token);
+                    if (token.isCancellationRequested) {
+                        sshConnection.close().catch(() => { });
+                        lease?.dispose();
+                        return;
+                    }
+
+                    this.tunnels.push(tunnel);
+                    this.sshConnection = sshConnection;
+                    this.sharedConnectionLease = lease;
+                    this.connectionState.serverListeningOn = serverResult.listeningOn;
+                    this.connectionState.serverLogFile = serverResult.logFile;
+                    this.connectionState.serverPlatform = serverResult.platform;
+                    this.watchConnection(sshConnection, lease);
+                    this.logger.info(`Reconnected to ${sshDest.toDisplayString()}`);
+
+                    await this.restoreForwardedTunnels(sshConnection);
+                    this.setConnectionStatus({ state: 'connected', sshDest, serverTunnel: true, forwardedPorts: this.forwardedTunnels.length });
+
+                    const serverRestarted = serverResult.connectionToken !== this.connectionState.connectionToken;
+                    if (serverRestarted || tunnel.localPort !== localPort) {
+                        // The window needs to be reloaded to use the new connection token, or the tunnel
+                        // another window shared on a different local port
+                        this.connectionState.connectionToken = serverResult.connectionToken;
+                        this.connectionState.localPort = tunnel.localPort;
+                        const message = serverRestarted
+                            ? `The VS Code Server on ${sshDest.toDisplayString()} was restarted, reload the window to reconnect to it.`
+                            : `The tunnel to the VS Code Server on ${sshDest.toDisplayString()} moved to another local port, reload the window to reconnect to it.`;
+                        const reload = 'Reload Window';
+                        vscode.window.showWarningMessage(message, reload).then(action => {
+                            if (action === reload) {
+                                vscode.commands.executeCommand('workbench.action.reloadWindow');
+                            }
+                        });
+                    }
+                    return;
+                } catch (err) {
+                    this.logger.error(`Reconnection attempt #${attempt} failed`, err);
+                    if (this.authenticationCancelled || token.isCancellationRequested || err instanceof vscode.RemoteAuthorityResolverError) {
+                        break;
+                    }
+                }
+
+                await delay(Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY), token);
+            }
+
+            if (!token.isCancellationRequested) {
+                this.setConnectionStatus({ state: 'disconnected', sshDest, serverTunnel: false, forwardedPorts: this.forwardedTunnels.length });
+                const reload = 'Reload Window';
+                vscode.window.showErrorMessage(`Could not reconnect to SSH Host ${sshDest.toDisplayString()}.`, reload).then(action => {
+                    if (action === reload) {
+                        vscode.commands.executeCommand('workbench.action.reloadWindow');
+                    }
+                });
+            }
+        } finally {
+            this.endConnectOperation(cancellation);
+            this.reconnecting = false;
+        }
+    }
+
+    /**
+     * Checks the host key offered by the server against known_hosts before connecting,
+     * unknown keys need to be accepted by the user and changed keys are refused
+     */
+    private async verifyHostKey(sshDest: SSHDestination, sshHostConfig: SSHHostConfiguration, port: number | undefined, connectTimeout: number): Promise<void> {
+        // Hosts behind a proxy can't be scanned directly, leave the verification to ssh
+        if (sshDest.jumpHosts.length || sshHostConfig['proxyjump'] || sshHostConfig['proxycommand'] || sshHostConfig['stricthostkeychecking']?.[0].toLowerCase() === 'no') {
+            return;
+        }
+
+        const hostname = sshHostConfig['hostname']?.[0] || sshDest.hostname;
+        const hostKeyAlias = sshHostConfig['hostkeyalias']?.[0];
+        const hostEntryName = hostKeyAlias || getHostFileEntryName(hostname, port);
+
+        let hostKeys: HostKey[];
+        try {
+            hostKeys = await scanHostKeys(hostname, port, connectTimeout);
+        } catch (err) {
+            this.logger.error(`Could not scan host keys for ${hostname}, host key verification is left to ssh`, err);
+            return;
+        }
+
+        const knownHostsFiles = getKnownHostsFiles(sshHostConfig);
+        const entries = await getHostFileEntries(knownHostsFiles, hostEntryName);
+        if (entries.some(entry => entry.marker === 'cert-authority')) {
+            // Host certificates are verified by ssh against the certificate authority
+            return;
+        }
+
+        // ssh negotiates a single key type, one known key is enough
+        const statuses = hostKeys.map(hostKey => checkHostKey(entries, hostKey));
+        if (statuses.includes('match')) {
+            return;
+        }
+
+        const revokedIdx = statuses.indexOf('revoked');
+        if (revokedIdx >= 0) {
+            const hostKey = hostKeys[revokedIdx];
+            this.logger.error(`Host key for ${hostEntryName} has been revoked, ${hostKey.type} ${getHostKeyFingerprint(hostKey.key)}`);
+            throw vscode.RemoteAuthorityResolverError.NotAvailable(`The ${hostKey.type} host key of ${hostEntryName} has been revoked`, true);
+        }
+
+        const mismatchIdx = statuses.indexOf('mismatch');
+        if (mismatchIdx >= 0) {
+            const hostKey = hostKeys[mismatchIdx];
+            const hostFile = entries.find(entry => !entry.marker && entry.type === hostKey.type)!.file;
+            this.logger.error(`Host key for ${hostEntryName} has changed, ${hostKey.type} ${getHostKeyFingerprint(hostKey.key)}`);
+
+            const removeEntry = 'Remove Stale Entry';
+            const openHostFile = 'Open known_hosts';
+            const action = await vscode.window.showErrorMessage(`WARNING: REMOTE HOST IDENTIFICATION HAS CHANGED for ${hostEntryName}!`, {
+                modal: true,
+                detail: `The ${hostKey.type} key fingerprint sent by the remote host is ${getHostKeyFingerprint(hostKey.key)}.\n\nSomeone could be eavesdropping on you right now (man-in-the-middle attack), or the host key has just been changed. If you trust the new key, remove the stale entry from ${hostFile} and connect again.`
+            }, removeEntry, openHostFile);
+            if (action === removeEntry) {
+                await removeHostFromHostFile(hostFile, hostEntryName);
+                this.logger.info(`Removed ${hostEntryName} from ${hostFile}`);
+            } else if (action === openHostFile) {
+                await vscode.window.showTextDocument(vscode.Uri.file(hostFile));
+            }
+
+            throw vscode.RemoteAuthorityResolverError.NotAvailable(`Host key verification failed for ${hostEntryName}`, true);
+        }
+
+        const hostFile = knownHostsFiles.userFiles[0];
+        if (!hostFile) {
+            // UserKnownHostsFile is none, ssh asks for the key itself
+            return;
+        }
+
+        const typeOrder = (type: string) => HOST_KEY_TYPES_ORDER.includes(type) ? HOST_KEY_TYPES_ORDER.indexOf(type) : HOST_KEY_TYPES_ORDER.length;
+        const hostKey = [...hostKeys].sort((a, b) => typeOrder(a.type) - typeOrder(b.type))[0];
+        const fingerprint = getHostKeyFingerprint(hostKey.key);
+
+        const accept = 'Accept';
+        const action = await vscode.window.showWarningMessage(`The authenticity of host '${hostEntryName}' can't be established.`, {
+            modal: true,
+            detail: `${hostKey.type} key fingerprint is ${fingerprint}.\n\nDo you want to continue connecting and add the key to the list of known hosts?`
+        }, accept);
+        if (action !== accept) {
+            this.logger.info(`Host key ${hostKey.type} ${fingerprint} for ${hostEntryName} rejected by the user`);
+            throw vscode.RemoteAuthorityResolverError.NotAvailable('Host key verification cancelled', true);
+        }
+
+        await addHostToHostFile(hostFile, hostEntryName, hostKey.key, hostKey.type);
+        this.logger.info(`Added host key ${hostKey.type} ${fingerprint} for ${hostEntryName} to ${hostFile}`);
+    }
+
+    private async handleAskpassPrompt(prompt: string, sshDest: SSHDestination): Promise<string | undefined> {
+        const rememberPassphrases = vscode.workspace.getConfiguration('remote.SSH').get<boolean>('rememberPassphrases', false);
+        const passphraseMatch = prompt.match(/Enter passphrase for key '(.+)'/i);
+        const secretKey = passphraseMatch ? `openremotessh.passphrase:${passphraseMatch[1]}` : undefined;
+
+        if (secretKey && rememberPassphrases) {
+            if (!this.triedStoredPassphrases.has(secretKey)) {
+                this.triedStoredPassphrases.add(secretKey);
+                const storedPassphrase = await this.context.secrets.get(secretKey);
+                if (storedPassphrase) {
+                    this.logger.info(`Using stored passphrase for key ${passphraseMatch![1]}`);
+                    return storedPassphrase;
+                }
+            } else {
+                // ssh asked again for the same key, so the stored passphrase is wrong
+                await this.context.secrets.delete(secretKey);
+            }
+        }
+
+        // Everything but host key confirmations is treated as a secret (passwords, passphrases, OTP codes)
+        const isConfirmation = /\(yes\/no/i.test(prompt);
+        const response = await vscode.window.showInputBox({
+            title: `SSH Host ${sshDest.toDisplayString()}`,
+            prompt: prompt.trim(),
+            password: !isConfirmation,
+            ignoreFocusOut: true
+        });
+
+        if (response === undefined) {
+            this.authenticationCancelled = true;
+            this.connectingConnection?.close().catch(() => { });
+            return undefined;
+        }
+
+        if (secretKey && rememberPassphrases) {
+            await this.context.secrets.store(secretKey, response);
+        }
+
+        return response;
+    }
+
+    private closeConnection(keepForwardedTunnels = false) {
         for (const tunnel of this.tunnels) {
             tunnel.dispose();
         }
         this.tunnels = [];
 
+        if (!keepForwardedTunnels) {
+            const forwardedTunnels = this.forwardedTunnels;
+            this.forwardedTunnels = [];
+            for (const tunnel of forwardedTunnels) {
+                tunnel.dispose();
+            }
+
+            this.askpassServer?.dispose();
+            this.askpassServer = undefined;
+        }
+
         if (this.sshConnection) {
             this.sshConnection.close().catch(err => {
                 this.logger.error(`Failed to close SSH connection: ${err}`);
             });
             this.sshConnection = undefined;
         }
+
+        // The broker closes the shared connection once no window holds it
+        this.sharedConnectionLease?.dispose();
+        this.sharedConnectionLease = undefined;
+    }
+
+    dispose() {
+        this.connectCancellation?.cancel();
+        disposeAll(this.disposables);
+        this.closeConnection();
     }
 }
+
+/**
+ * Waits for `ms`, or until `token` is cancelled
+ */
+function delay(ms: number, token?: vscode.CancellationToken) {
+    return new Promise<void>(resolve => {
+        if (token?.isCancellationRequested) {
+            resolve();
+            return;
+        }
+        const timer = setTimeout(done, ms);
+        const listener = token?.onCancellationRequested(done);
+        function done() {
+            clearTimeout(timer);
+            listener?.dispose();
+            resolve();
+        }
+    });
+}
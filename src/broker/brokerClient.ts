@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import Log from '../common/logger';
+import { BROKER_SOCKET_NAME, BrokerMessage, ClientMessage, MasterState, onMessages, SharedServer, StartMasterRequest } from './brokerProtocol';
+
+// How long to wait for a newly started broker to listen
+const BROKER_START_TIMEOUT = 10 * 1000;
+const BROKER_CONNECT_INTERVAL = 100;
+
+/**
+ * Directory of the broker for `key`, only accessible by the current user as the sockets in it
+ * give access to the authenticated connection
+ */
+async function getBrokerDir(key: string): Promise<string> {
+    const uid = os.userInfo().uid;
+    const userDir = path.join(os.tmpdir(), `ors-${uid}`);
+    await fs.promises.mkdir(userDir, { recursive: true, mode: 0o700 });
+    const stat = await fs.promises.lstat(userDir);
+    if (!stat.isDirectory() || stat.uid !== uid || (stat.mode & 0o077) !== 0) {
+        throw new Error(`${userDir} is not a private directory of the current user`);
+    }
+
+    const brokerDir = path.join(userDir, crypto.createHash('sha256').update(key).digest('hex').substring(0, 16));
+    await fs.promises.mkdir(brokerDir, { recursive: true, mode: 0o700 });
+    return brokerDir;
+}
+
+function connectSocket(socketPath: string): Promise<net.Socket | undefined> {
+    return new Promise(resolve => {
+        const socket = net.connect(socketPath);
+        socket.once('connect', () => {
+            socket.removeAllListeners('error');
+            resolve(socket);
+        });
+        socket.once('error', () => resolve(undefined));
+    });
+}
+
+/**
+ * Reference held by a window on the connection to a host shared through the broker, the broker
+ * closes the connection once every window disposed its lease
+ */
+export class SharedConnectionLease implements vscode.Disposable {
+    private readonly _onDidDisconnect = new vscode.EventEmitter<string>();
+    /** Fired with the reason when the shared connection is lost */
+    readonly onDidDisconnect = this._onDidDisconnect.event;
+
+    private readonly _onMessage = new vscode.EventEmitter<BrokerMessage>();
+    private masterState: MasterState = 'none';
+    private controlPath = '';
+    private disposed = false;
+
+    private constructor(private readonly socket: net.Socket) {
+        onMessages<BrokerMessage>(socket, message => {
+            if (message.type === 'master') {
+                this.masterState = message.state;
+                this.controlPath = message.controlPath;
+            } else if (message.type === 'masterFailed') {
+                this.masterState = 'none';
+            } else if (message.type === 'disconnected') {
+                this._onDidDisconnect.fire(message.error);
+            }
+            this._onMessage.fire(message);
+        });
+        socket.on('error', () => { });
+        socket.on('close', () => {
+            if (!this.disposed) {
+                this._onDidDisconnect.fire('Connection broker exited');
+            }
+        });
+    }
+
+    /**
+     * Connects to the broker of the connection identified by `key`, starting it if it's not running
+     */
+    static async acquire(extensionUri: vscode.Uri, key: string, logger: Log, token?: vscode.CancellationToken): Promise<SharedConnectionLease> {
+        const brokerDir = await getBrokerDir(key);
+        const socketPath = path.join(brokerDir, BROKER_SOCKET_NAME);
+
+        let socket = await connectSocket(socketPath);
+        if (!socket) {
+            logger.info(`Starting connection broker in ${brokerDir}`);
+            const brokerProcess = cp.spawn(process.execPath, [vscode.Uri.joinPath(extensionUri, 'out', 'broker', 'brokerMain.js').fsPath, brokerDir], {
+                env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+                detached: true,
+                stdio: 'ignore'
+            });
+            brokerProcess.unref();
+
+            const deadline = Date.now() + BROKER_START_TIMEOUT;
+            while (!socket && Date.now() < deadline) {
+                if (token?.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
+                await delay(BROKER_CONNECT_INTERVAL);
+                socket = await connectSocket(socketPath);
+            }
+            if (!socket) {
+                throw new Error(`Timed out waiting for the connection broker in ${brokerDir}`);
+            }
+        }
+
+        const lease = new SharedConnectionLease(socket);
+        try {
+            await lease.request({ type: 'acquire' }, message => message.type === 'master', token);
+        } catch (err) {
+            lease.dispose();
+            throw err;
+        }
+        logger.info(`Acquired shared connection from the broker in ${brokerDir}`);
+        return lease;
+    }
+
+    /**
+     * Waits until the shared master connection is ready, starting it with `request` unless
+     * another window already started it
+     */
+    async startMaster(request: StartMasterRequest, token?: vscode.CancellationToken): Promise<void> {
+        while (this.masterState !== 'ready') {
+            const requested = this.masterState === 'none';
+            const message = await this.request(
+                requested ? { type: 'startMaster', request } : undefined,
+                message => (message.type === 'master' && message.state !== 'starting') || message.type === 'masterFailed',
+                token
+            );
+            // If the request of another window failed, e.g. its authentication was cancelled, try again with ours
+            if (message.type === 'masterFailed' && requested) {
+                throw new Error(`Could not establish shared SSH master connection: ${message.error}`);
+            }
+        }
+    }
+
+    /**
+     * Whether the master connection was started already and doesn't need authentication
+     */
+    isMasterRunning() {
+        return this.masterState !== 'none';
+    }
+
+    /**
+     * Control socket the shared master connection listens on once it's started
+     */
+    getControlPath() {
+        return this.controlPath;
+    }
+
+    /**
+     * Server shared by the windows, when undefined this window has to start it and publish
+     * it with `publishServer` or give up with `releaseServer`
+     */
+    async claimServer(staleLocalPort?: number, token?: vscode.CancellationToken): Promise<SharedServer | undefined> {
+        const message = await this.request({ type: 'claimServer', staleLocalPort }, message => message.type === 'server', token);
+        return message.type === 'server' ? message.server : undefined;
+    }
+
+    publishServer(server: SharedServer) {
+        this.send({ type: 'publishServer', server });
+    }
+
+    releaseServer() {
+        this.send({ type: 'releaseServer' });
+    }
+
+    private send(message: ClientMessage) {
+        if (!this.disposed) {
+            this.socket.write(JSON.stringify(message) + '\n');
+        }
+    }
+
+    /**
+     * Sends `message` and waits for the first message of the broker matching `isResponse`
+     */
+    private request(message: ClientMessage | undefined, isResponse: (message: BrokerMessage) => boolean, token?: vscode.CancellationToken): Promise<BrokerMessage> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        return new Promise((resolve, reject) => {
+            const disposables: vscode.Disposable[] = [];
+            const settle = (callback: () => void) => {
+                disposables.forEach(d => d.dispose());
+                callback();
+            };
+            disposables.push(this._onMessage.event(response => {
+                if (isResponse(response)) {
+                    settle(() => resolve(response));
+                }
+            }));
+            disposables.push(this.onDidDisconnect(reason => settle(() => reject(new Error(reason)))));
+            if (token) {
+                disposables.push(token.onCancellationRequested(() => settle(() => reject(new vscode.CancellationError()))));
+            }
+            if (message) {
+                this.send(message);
+            }
+        });
+    }
+
+    dispose() {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        this.socket.end();
+        this._onDidDisconnect.dispose();
+        this._onMessage.dispose();
+    }
+}
+
+function delay(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
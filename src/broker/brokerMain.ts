@@ -0,0 +1,276 @@
+// Entry point for the connection broker of a host, runs as a standalone node process started by the first
+// window connecting to the host and outlives it. It must not import vscode.
+//
+// The broker owns the ssh master connection every window multiplexes over, and remembers the server
+// started through it so the other windows reuse its tunnel. Once the last window is gone the master
+// connection is closed and the broker exits.
+
+import * as net from 'net';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BROKER_SOCKET_NAME, BrokerMessage, ClientMessage, MASTER_SOCKET_NAME, MasterState, onMessages, SharedServer, StartMasterRequest } from './brokerProtocol';
+
+// Kept short so a window reloading reuses the connection
+const SHUTDOWN_DELAY = 10 * 1000;
+const CONTROL_CHECK_INTERVAL = 200;
+
+class Broker {
+    private readonly clients = new Set<net.Socket>();
+    private readonly controlPath: string;
+    private masterState: MasterState = 'none';
+    private masterProcess: cp.ChildProcess | undefined;
+    private masterRequest: StartMasterRequest | undefined;
+    private server: SharedServer | undefined;
+    // Window starting the server, the others claiming it wait until it's published
+    private installer: net.Socket | undefined;
+    private waitingForServer: net.Socket[] = [];
+    private shutdownTimer: NodeJS.Timeout | undefined;
+    private shuttingDown = false;
+
+    constructor(private readonly dir: string) {
+        this.controlPath = path.join(dir, MASTER_SOCKET_NAME);
+    }
+
+    log(message: string) {
+        fs.appendFileSync(path.join(this.dir, 'broker.log'), `${new Date().toISOString()} [${process.pid}] ${message}\n`);
+    }
+
+    onConnection(socket: net.Socket) {
+        socket.on('error', () => { });
+        socket.on('close', () => this.onClientClosed(socket));
+        onMessages<ClientMessage>(socket, message => this.onMessage(socket, message));
+    }
+
+    private onMessage(socket: net.Socket, message: ClientMessage) {
+        switch (message.type) {
+            case 'acquire':
+                this.clients.add(socket);
+                this.cancelShutdown();
+                this.log(`Window acquired the connection, ${this.clients.size} window(s) connected`);
+                this.send(socket, { type: 'master', state: this.masterState, controlPath: this.controlPath });
+                break;
+            case 'startMaster':
+                // Windows racing to start the master get the result of the first request
+                if (this.masterState === 'none') {
+                    this.startMaster(message.request);
+                }
+                break;
+            case 'claimServer':
+                this.claimServer(socket, message.staleLocalPort);
+                break;
+            case 'publishServer':
+                if (this.installer === socket) {
+                    this.log(`Server published on local port ${message.server.localPort}`);
+                    this.server = message.server;
+                    this.installer = undefined;
+                    const waiting = this.waitingForServer;
+                    this.waitingForServer = [];
+                    for (const client of waiting) {
+                        this.send(client, { type: 'server', server: this.server });
+                    }
+                }
+                break;
+            case 'releaseServer':
+                if (this.installer === socket) {
+                    this.log('Window starting the server gave up');
+                    this.installer = undefined;
+                    this.nextInstaller();
+                }
+                break;
+        }
+    }
+
+    private claimServer(socket: net.Socket, staleLocalPort: number | undefined) {
+        if (this.server && this.server.localPort === staleLocalPort) {
+            this.log(`Server on local port ${staleLocalPort} is not reachable anymore`);
+            this.server = undefined;
+        }
+
+        if (this.server) {
+            this.send(socket, { type: 'server', server: this.server });
+        } else if (this.installer) {
+            this.waitingForServer.push(socket);
+        } else {
+            this.installer = socket;
+            this.send(socket, { type: 'server', server: undefined });
+        }
+    }
+
+    private nextInstaller() {
+        const next = this.waitingForServer.shift();
+        if (next) {
+            this.installer = next;
+            this.send(next, { type: 'server', server: undefined });
+        }
+    }
+
+    private onClientClosed(socket: net.Socket) {
+        this.waitingForServer = this.waitingForServer.filter(client => client !== socket);
+        if (this.installer === socket) {
+            this.installer = undefined;
+            this.nextInstaller();
+        }
+        if (this.clients.delete(socket)) {
+            this.log(`Window released the connection, ${this.clients.size} window(s) connected`);
+            if (this.clients.size === 0) {
+                this.scheduleShutdown();
+            }
+        }
+    }
+
+    private async startMaster(request: StartMasterRequest) {
+        this.masterState = 'starting';
+        this.masterRequest = request;
+        this.broadcast({ type: 'master', state: this.masterState, controlPath: this.controlPath });
+        this.log(`Starting SSH master connection with arguments ${request.masterArgs}`);
+
+        const env = { ...process.env, ...request.env };
+        const masterProcess = cp.spawn('ssh', request.masterArgs, { env, stdio: ['ignore', 'ignore', 'pipe'] });
+        this.masterProcess = masterProcess;
+
+        let stderr = '';
+        masterProcess.stderr.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        let exited = false;
+        const onExit = (code: number | null) => {
+            if (exited) {
+                return;
+            }
+            exited = true;
+            this.log(`SSH master connection exited with code ${code}: ${stderr.trim()}`);
+            if (this.masterState === 'ready' && !this.shuttingDown) {
+                // Every window has to connect again, a new broker is started by the first one
+                this.broadcast({ type: 'disconnected', error: `SSH master connection exited with code ${code}: ${stderr.trim()}` });
+                this.shutdown();
+            }
+        };
+        masterProcess.on('error', (err) => {
+            stderr += err.message;
+            onExit(null);
+        });
+        masterProcess.on('exit', onExit);
+
+        const deadline = Date.now() + request.timeout * 1000;
+        while (Date.now() < deadline && !exited) {
+            await delay(CONTROL_CHECK_INTERVAL);
+            if (!exited && fs.existsSync(this.controlPath) && await runSSH(request.checkArgs, env) === 0) {
+                this.masterState = 'ready';
+                this.log('SSH master connection established');
+                this.broadcast({ type: 'master', state: this.masterState, controlPath: this.controlPath });
+                return;
+            }
+        }
+
+        if (!exited) {
+            masterProcess.kill();
+        }
+        this.masterState = 'none';
+        this.masterProcess = undefined;
+        this.broadcast({ type: 'masterFailed', error: stderr.trim() || 'Timed out waiting for the SSH master connection' });
+    }
+
+    scheduleShutdown() {
+        this.cancelShutdown();
+        this.shutdownTimer = setTimeout(() => this.shutdown(), SHUTDOWN_DELAY);
+    }
+
+    private cancelShutdown() {
+        if (this.shutdownTimer) {
+            clearTimeout(this.shutdownTimer);
+            this.shutdownTimer = undefined;
+        }
+    }
+
+    async shutdown() {
+        if (this.shuttingDown) {
+            return;
+        }
+        this.shuttingDown = true;
+        this.log('Shutting down');
+        if (this.masterProcess && this.masterState === 'ready' && this.masterRequest) {
+            // Closes the forwards of the master connection too
+            await runSSH(this.masterRequest.exitArgs, { ...process.env, ...this.masterRequest.env });
+        }
+        this.masterProcess?.kill();
+        for (const client of this.clients) {
+            client.destroy();
+        }
+        fs.rmSync(path.join(this.dir, BROKER_SOCKET_NAME), { force: true });
+        fs.rmSync(this.controlPath, { force: true });
+        process.exit(0);
+    }
+
+    private send(socket: net.Socket, message: BrokerMessage) {
+        if (!socket.destroyed) {
+            socket.write(JSON.stringify(message) + '\n');
+        }
+    }
+
+    private broadcast(message: BrokerMessage) {
+        for (const client of this.clients) {
+            this.send(client, message);
+        }
+    }
+}
+
+function runSSH(sshArgs: string[], env: NodeJS.ProcessEnv): Promise<number | null> {
+    return new Promise(resolve => {
+        cp.execFile('ssh', sshArgs, { env }, (err) => {
+            resolve(err ? (typeof err.code === 'number' ? err.code : 1) : 0);
+        });
+    });
+}
+
+function delay(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Listens on the broker socket, a socket left behind by a broker that died is replaced
+ */
+function listen(server: net.Server, socketPath: string): Promise<boolean> {
+    return new Promise(resolve => {
+        server.once('error', (err: Error & { code?: string }) => {
+            if (err.code !== 'EADDRINUSE') {
+                resolve(false);
+                return;
+            }
+            const probe = net.connect(socketPath);
+            probe.once('connect', () => {
+                // Another broker is running for this host
+                probe.destroy();
+                resolve(false);
+            });
+            probe.once('error', () => {
+                fs.rmSync(socketPath, { force: true });
+                server.once('error', () => resolve(false));
+                server.listen(socketPath, () => resolve(true));
+            });
+        });
+        server.listen(socketPath, () => resolve(true));
+    });
+}
+
+async function main(argv: string[]) {
+    const dir = argv[2];
+    if (!dir) {
+        console.error('Missing broker directory');
+        process.exit(1);
+    }
+
+    const broker = new Broker(dir);
+    const server = net.createServer(socket => broker.onConnection(socket));
+    if (!await listen(server, path.join(dir, BROKER_SOCKET_NAME))) {
+        process.exit(0);
+    }
+    broker.log('Broker started');
+    // Exits if the window that started the broker never acquires the connection
+    broker.scheduleShutdown();
+
+    process.on('SIGTERM', () => broker.shutdown());
+}
+
+main(process.argv);
@@ -0,0 +1,63 @@
+// Messages exchanged as json lines between the windows and the connection broker of a host,
+// shared with the broker process so it must not import vscode
+
+import { ServerInstallResult } from '../serverSetup';
+
+export const BROKER_SOCKET_NAME = 'broker.sock';
+export const MASTER_SOCKET_NAME = 'master.sock';
+
+// Server started by one of the windows, reached by all of them through the same forwarded port
+export interface SharedServer {
+    localPort: number;
+    result: ServerInstallResult;
+}
+
+export interface StartMasterRequest {
+    masterArgs: string[];
+    // `ssh -O check` and `ssh -O exit` for the master connection
+    checkArgs: string[];
+    exitArgs: string[];
+    // Askpass environment of the window starting the master, it answers the prompts
+    env: Record<string, string>;
+    timeout: number;
+}
+
+export type ClientMessage =
+    | { type: 'acquire' }
+    | { type: 'startMaster'; request: StartMasterRequest }
+    // `staleLocalPort` drops the shared server on that port, it's not reachable anymore
+    | { type: 'claimServer'; staleLocalPort?: number }
+    | { type: 'publishServer'; server: SharedServer }
+    | { type: 'releaseServer' };
+
+export type MasterState = 'none' | 'starting' | 'ready';
+
+export type BrokerMessage =
+    | { type: 'master'; state: MasterState; controlPath: string }
+    | { type: 'masterFailed'; error: string }
+    // Without a server the window receiving it has to start the server and publish it
+    | { type: 'server'; server: SharedServer | undefined }
+    | { type: 'disconnected'; error: string };
+
+/**
+ * Splits the data received on a socket into json messages, one per line
+ */
+export function onMessages<T>(socket: { on(event: 'data', listener: (data: Buffer) => void): void }, handler: (message: T) => void) {
+    let buffer = '';
+    socket.on('data', data => {
+        buffer += data.toString();
+        let newLineIdx: number;
+        while ((newLineIdx = buffer.indexOf('\n')) >= 0) {
+            const line = buffer.substring(0, newLineIdx);
+            buffer = buffer.substring(newLineIdx + 1);
+            let message: T;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                // Ignore malformed messages
+                continue;
+            }
+            handler(message);
+        }
+    });
+}
@@ -1,17 +1,66 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { getRemoteAuthority } from './authResolver';
 import SSHDestination from './ssh/sshDestination';
+import SSHConfiguration, { getCustomSSHConfigPath, getDefaultSSHConfigPath, getSystemSSHConfigPath } from './ssh/sshConfig';
+import { exists as fileExists } from './common/files';
 
-export async function promptOpenRemoteSSHWindow(reuseWindow: boolean) {
-    const host = await vscode.window.showInputBox({
-        title: 'Enter [user@]hostname[:port]'
+/**
+ * Destination for a host declared in the ssh config file, the alias is passed to ssh so
+ * all its settings apply
+ */
+export function getConfiguredHostDestination(sshConfig: SSHConfiguration, alias: string): SSHDestination {
+    const hostConfig = sshConfig.getHostConfiguration(alias);
+    return new SSHDestination(hostConfig['hostname']?.[0] || alias, undefined, undefined, undefined, [], alias);
+}
+
+export async function pickHost(): Promise<SSHDestination | undefined> {
+    const sshConfig = await SSHConfiguration.loadFromFS();
+    const hostItems: (vscode.QuickPickItem & { sshDest?: SSHDestination })[] = sshConfig.getAllConfiguredHosts().map(host => {
+        const sshDest = getConfiguredHostDestination(sshConfig, host);
+        return { label: host, description: sshDest.hostname !== host ? sshDest.hostname : undefined, sshDest };
     });
 
-    if (!host) {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { sshDest?: SSHDestination }>();
+        quickPick.title = 'Select configured SSH host or enter [user@]hostname[:port] [-i identity] [-J [user@]jumphost[:port][#identity],...]';
+        quickPick.placeholder = '[user@]hostname[:port] [-i identity] [-J [user@]jumphost[:port][#identity],...]';
+        quickPick.items = hostItems;
+        quickPick.onDidChangeValue(value => {
+            // Allow connecting to any host typed in, not only the configured ones
+            quickPick.items = value && !hostItems.some(item => item.label === value) ? [{ label: value }, ...hostItems] : hostItems;
+        });
+        quickPick.onDidAccept(() => {
+            const item = quickPick.selectedItems[0];
+            const host = item?.label || quickPick.value;
+            let sshDest = item?.sshDest;
+            if (!sshDest && host) {
+                try {
+                    sshDest = SSHDestination.parse(host);
+                } catch (e) {
+                    // Keep the input open so it can be fixed
+                    vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e));
+                    return;
+                }
+            }
+            resolve(sshDest);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+export async function promptOpenRemoteSSHWindow(reuseWindow: boolean) {
+    const sshDest = await pickHost();
+    if (!sshDest) {
         return;
     }
 
-    const sshDest = new SSHDestination(host);
     openRemoteSSHWindow(sshDest.toEncodedString(), reuseWindow);
 }
 
@@ -23,3 +72,39 @@ export function openRemoteSSHLocationWindow(host: string, path: string, reuseWin
     vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.from({ scheme: 'vscode-remote', authority: getRemoteAuthority(host), path }), { forceNewWindow: !reuseWindow });
 }
 
+
+export async function openSSHConfigFile() {
+    const configItems: (vscode.QuickPickItem & { filePath: string })[] = [];
+    const customConfigPath = getCustomSSHConfigPath();
+    if (customConfigPath) {
+        configItems.push({ label: customConfigPath, description: 'remote.SSH.configFile', filePath: customConfigPath });
+    }
+    configItems.push({ label: getDefaultSSHConfigPath(), description: 'User config', filePath: getDefaultSSHConfigPath() });
+    configItems.push({ label: getSystemSSHConfigPath(), description: 'System config', filePath: getSystemSSHConfigPath() });
+    configItems.push({ label: 'Settings', detail: 'Specify a custom configuration file', filePath: '' });
+
+    const item = await vscode.window.showQuickPick(configItems, {
+        title: 'Select SSH configuration file to update'
+    });
+    if (!item) {
+        return;
+    }
+
+    if (!item.filePath) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'remote.SSH.configFile');
+        return;
+    }
+
+    const sshConfigPath = item.filePath;
+    try {
+        if (!await fileExists(sshConfigPath)) {
+            await fs.promises.mkdir(path.dirname(sshConfigPath), { recursive: true, mode: 0o700 });
+            await fs.promises.writeFile(sshConfigPath, '', { mode: 0o600 });
+        }
+    } catch (e) {
+        vscode.window.showErrorMessage(`Could not create ssh config file ${sshConfigPath}: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+    }
+
+    await vscode.window.showTextDocument(vscode.Uri.file(sshConfigPath), { preview: false });
+}
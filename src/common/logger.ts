@@ -1,12 +1,63 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 
-type LogLevel = 'Trace' | 'Info' | 'Error';
+export type LogLevel = 'off' | 'error' | 'warning' | 'info' | 'debug' | 'trace';
+
+// Ordered by verbosity, a message is logged if its level isn't past the configured one
+const LOG_LEVELS: LogLevel[] = ['off', 'error', 'warning', 'info', 'debug', 'trace'];
+
+const MAX_LOG_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_LOG_FILES = 3;
+
+const REDACTED = '<redacted>';
+const REDACTIONS: [RegExp, string][] = [
+	// Connection tokens, passwords and secrets given as `key=value` or `"key": "value"`
+	[/((?:connection[-_]?token|password|passphrase|secret)["']*\s*[:=]\s*["']*)[^\s"',;]+/gi, `$1${REDACTED}`],
+	// Credentials in urls
+	[/\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s/@]+@/gi, `$1${REDACTED}@`],
+	// Identity files, ssh arguments are logged comma separated
+	[/(^|[\s,])-i([\s,]+)[^\s,]+/g, `$1-i$2${REDACTED}`],
+	[/(IdentityFile[\s=]+)[^\s,]+/gi, `$1${REDACTED}`],
+];
+
+export function redact(message: string): string {
+	return REDACTIONS.reduce((result, [regex, replacement]) => result.replace(regex, replacement), message);
+}
+
+function getConfiguredLogLevel(): LogLevel {
+	const level = vscode.workspace.getConfiguration('remote.SSH').get<LogLevel>('logLevel', 'info');
+	return LOG_LEVELS.includes(level) ? level : 'info';
+}
 
 export default class Log {
-	private output: vscode.OutputChannel;
+	private output: vscode.LogOutputChannel;
+	private level: LogLevel = getConfiguredLogLevel();
+	private logFile: string | undefined;
+	private logFileSize: number | undefined;
+	private fileQueue: Promise<void> = Promise.resolve();
+	private configListener: vscode.Disposable;
 
-	constructor(name: string) {
-		this.output = vscode.window.createOutputChannel(name);
+	/**
+	 * @param logDir folder the log is also written to when `remote.SSH.logToFile` is enabled
+	 */
+	constructor(private readonly name: string, private readonly logDir?: vscode.Uri) {
+		this.output = vscode.window.createOutputChannel(name, { log: true });
+		this.updateLogFile();
+		this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('remote.SSH.logLevel')) {
+				this.level = getConfiguredLogLevel();
+			}
+			if (e.affectsConfiguration('remote.SSH.logToFile')) {
+				this.updateLogFile();
+			}
+		});
+	}
+
+	private updateLogFile() {
+		const logToFile = vscode.workspace.getConfiguration('remote.SSH').get<boolean>('logToFile', false);
+		this.logFile = logToFile && this.logDir ? path.join(this.logDir.fsPath, `${this.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.log`) : undefined;
+		this.logFileSize = undefined;
 	}
 
 	private data2String(data: any): string {
@@ -20,29 +71,90 @@ export default class Log {
 	}
 
 	public trace(message: string, data?: any): void {
-		this.logLevel('Trace', message, data);
+		this.logLevel('trace', message, data);
+	}
+
+	public debug(message: string, data?: any): void {
+		this.logLevel('debug', message, data);
 	}
 
 	public info(message: string, data?: any): void {
-		this.logLevel('Info', message, data);
+		this.logLevel('info', message, data);
+	}
+
+	public warn(message: string, data?: any): void {
+		this.logLevel('warning', message, data);
 	}
 
 	public error(message: string, data?: any): void {
-		this.logLevel('Error', message, data);
+		this.logLevel('error', message, data);
+	}
+
+	public isEnabled(level: LogLevel): boolean {
+		return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
 	}
 
 	public logLevel(level: LogLevel, message: string, data?: any): void {
-		this.output.appendLine(`[${level}  - ${this.now()}] ${message}`);
-		if (data) {
-			this.output.appendLine(this.data2String(data));
+		if (level === 'off' || !this.isEnabled(level)) {
+			return;
+		}
+
+		if (data !== undefined && data !== null && data !== '') {
+			message += '\n' + this.data2String(data);
+		}
+		message = redact(message);
+
+		switch (level) {
+			case 'trace': this.output.trace(message); break;
+			case 'debug': this.output.debug(message); break;
+			case 'info': this.output.info(message); break;
+			case 'warning': this.output.warn(message); break;
+			case 'error': this.output.error(message); break;
+		}
+
+		if (this.logFile) {
+			this.writeToFile(this.logFile, `${this.now()} [${level}] ${message}\n`);
+		}
+	}
+
+	private writeToFile(logFile: string, line: string) {
+		this.fileQueue = this.fileQueue.then(async () => {
+			if (this.logFileSize === undefined) {
+				await fs.promises.mkdir(path.dirname(logFile), { recursive: true });
+				this.logFileSize = await fs.promises.stat(logFile).then(stat => stat.size, () => 0);
+			}
+			if (this.logFileSize + line.length > MAX_LOG_FILE_SIZE) {
+				await this.rotateLogFiles(logFile);
+				this.logFileSize = 0;
+			}
+			await fs.promises.appendFile(logFile, line);
+			this.logFileSize += line.length;
+		}).catch(err => {
+			// Stop writing to the file instead of failing on every line
+			this.logFile = undefined;
+			this.output.error(`Failed writing to log file ${logFile}: ${err}`);
+		});
+	}
+
+	/**
+	 * Shifts `name.log` to `name.1.log`, `name.1.log` to `name.2.log`... dropping the oldest one
+	 */
+	private async rotateLogFiles(logFile: string) {
+		const rotatedName = (index: number) => logFile.replace(/\.log$/, `.${index}.log`);
+		await fs.promises.rm(rotatedName(MAX_LOG_FILES - 1), { force: true });
+		for (let i = MAX_LOG_FILES - 2; i >= 1; i--) {
+			await fs.promises.rename(rotatedName(i), rotatedName(i + 1)).catch(() => { });
 		}
+		await fs.promises.rename(logFile, rotatedName(1));
 	}
 
 	private now(): string {
 		const now = new Date();
-		return padLeft(now.getUTCHours() + '', 2, '0')
+		return `${now.getFullYear()}-${padLeft(now.getMonth() + 1 + '', 2, '0')}-${padLeft(now.getDate() + '', 2, '0')}`
+			+ ' ' + padLeft(now.getHours() + '', 2, '0')
 			+ ':' + padLeft(now.getMinutes() + '', 2, '0')
-			+ ':' + padLeft(now.getUTCSeconds() + '', 2, '0') + '.' + now.getMilliseconds();
+			+ ':' + padLeft(now.getSeconds() + '', 2, '0')
+			+ '.' + padLeft(now.getMilliseconds() + '', 3, '0');
 	}
 
 	public show() {
@@ -50,6 +162,7 @@ export default class Log {
 	}
 
 	public dispose() {
+		this.configListener.dispose();
 		this.output.dispose();
 	}
 }
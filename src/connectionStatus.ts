@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import Log from './common/logger';
+import { Disposable } from './common/disposable';
+import { ConnectionStatus, RemoteSSHResolver } from './authResolver';
+
+const LATENCY_CHECK_INTERVAL = 30 * 1000;
+// Latency above this is shown as a warning
+const HIGH_LATENCY = 500;
+
+/**
+ * Shows the state of the connection to the SSH host in the status bar with the latency measured periodically
+ */
+export class ConnectionStatusBar extends Disposable {
+    private readonly statusBarItem: vscode.StatusBarItem;
+    private latency: number | undefined;
+    private latencyMeasuredAt: Date | undefined;
+    private latencyTimer: NodeJS.Timeout | undefined;
+    private measuringLatency = false;
+
+    constructor(
+        private readonly resolver: RemoteSSHResolver,
+        private readonly logger: Log
+    ) {
+        super();
+        this.statusBarItem = this._register(vscode.window.createStatusBarItem('openremotessh.connectionStatus', vscode.StatusBarAlignment.Left, 1000));
+        this.statusBarItem.name = 'Remote - SSH Connection';
+        this.statusBarItem.command = 'openremotessh.showConnectionMenu';
+        this._register(resolver.onDidChangeConnectionStatus(status => this.onStatusChanged(status)));
+        this.onStatusChanged(resolver.getConnectionStatus());
+    }
+
+    private onStatusChanged(status: ConnectionStatus | undefined) {
+        if (status?.state === 'connected') {
+            if (!this.latencyTimer) {
+                this.latencyTimer = setInterval(() => this.measureLatency(), LATENCY_CHECK_INTERVAL);
+                this.measureLatency();
+            }
+        } else {
+            this.stopLatencyChecks();
+        }
+        this.update();
+    }
+
+    private async measureLatency() {
+        if (this.measuringLatency) {
+            return;
+        }
+        this.measuringLatency = true;
+        try {
+            this.latency = await this.resolver.measureLatency();
+            this.latencyMeasuredAt = new Date();
+        } catch (err) {
+            // Losing the connection is handled by the resolver
+            this.logger.debug('Failed to measure the latency to the SSH host', err);
+            this.latency = undefined;
+        } finally {
+            this.measuringLatency = false;
+        }
+        this.update();
+    }
+
+    private stopLatencyChecks() {
+        if (this.latencyTimer) {
+            clearInterval(this.latencyTimer);
+            this.latencyTimer = undefined;
+        }
+        this.latency = undefined;
+        this.latencyMeasuredAt = undefined;
+    }
+
+    private update() {
+        const status = this.resolver.getConnectionStatus();
+        if (!status) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const host = status.sshDest.toDisplayString();
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**SSH Host:** ${host}\n\n`);
+        tooltip.appendMarkdown(`**Server tunnel:** ${status.serverTunnel ? 'open' : 'closed'}\n\n`);
+        tooltip.appendMarkdown(`**Forwarded ports:** ${status.forwardedPorts}\n\n`);
+
+        this.statusBarItem.backgroundColor = undefined;
+        switch (status.state) {
+            case 'connected':
+                if (!status.serverTunnel) {
+                    this.statusBarItem.text = `$(warning) ${host}`;
+                    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                } else if (this.latency !== undefined) {
+                    this.statusBarItem.text = `$(radio-tower) ${host} ${this.latency} ms`;
+                    if (this.latency > HIGH_LATENCY) {
+                        this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                    }
+                } else {
+                    this.statusBarItem.text = `$(radio-tower) ${host}`;
+                }
+                if (this.latency !== undefined) {
+                    tooltip.appendMarkdown(`**Latency:** ${this.latency} ms (measured at ${this.latencyMeasuredAt?.toLocaleTimeString()})\n\n`);
+                }
+                break;
+            case 'reconnecting':
+                this.statusBarItem.text = `$(sync~spin) Reconnecting (attempt ${status.reconnectAttempt})…`;
+                tooltip.appendMarkdown(`Reconnecting to SSH Host ${host}\n\n`);
+                break;
+            case 'disconnected':
+                this.statusBarItem.text = `$(debug-disconnect) ${host}`;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                tooltip.appendMarkdown(`Disconnected from SSH Host ${host}\n\n`);
+                break;
+        }
+        this.statusBarItem.tooltip = tooltip;
+        this.statusBarItem.show();
+    }
+
+    async showMenu() {
+        const status = this.resolver.getConnectionStatus();
+        if (!status) {
+            vscode.window.showInformationMessage('This window is not connected to an SSH host.');
+            return;
+        }
+
+        const items: (vscode.QuickPickItem & { run: () => unknown })[] = [
+            { label: '$(debug-restart) Reconnect', run: () => this.resolver.reconnectNow() },
+            { label: '$(output) Show Log', run: () => this.logger.show() },
+            { label: '$(plug) Open Forwarded Ports', run: () => vscode.commands.executeCommand('~remote.forwardedPorts.focus') },
+            { label: '$(debug-disconnect) Disconnect', run: () => vscode.commands.executeCommand('workbench.action.remote.close') }
+        ];
+        const selected = await vscode.window.showQuickPick(items, { title: `SSH Host ${status.sshDest.toDisplayString()}` });
+        selected?.run();
+    }
+
+    override dispose() {
+        this.stopLatencyChecks();
+        super.dispose();
+    }
+}
@@ -0,0 +1,325 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as net from 'net';
+import Log, { redact } from './common/logger';
+import SSHConnection from './ssh/sshConnection';
+import SSHDestination from './ssh/sshDestination';
+import { RemoteSSHResolver, ServerHost } from './authResolver';
+import { pickHost } from './commands';
+import { detectRemoteShell, parseScriptMarkers, toBashCommand, toPowerShellCommand } from './serverSetup';
+import { formatSize } from './serverManagement';
+
+export type DiagnosticStatus = 'pass' | 'fail' | 'warn' | 'skip';
+
+export interface DiagnosticResult {
+    name: string;
+    status: DiagnosticStatus;
+    detail: string;
+}
+
+const STATUS_ICONS: Record<DiagnosticStatus, string> = {
+    pass: '✅',
+    fail: '❌',
+    warn: '⚠️',
+    skip: '⏭️'
+};
+
+// Below this there may not be enough room to download and extract the server
+const MIN_FREE_DISK_SPACE_KB = 512 * 1024;
+
+// Kept in sync with the install scripts
+const SUPPORTED_KERNELS: Record<string, string> = {
+    Linux: 'linux',
+    Darwin: 'darwin',
+    FreeBSD: 'freebsd',
+    DragonFly: 'dragonfly'
+};
+const SERVER_ARCHS: Record<string, string> = {
+    x86_64: 'x64',
+    amd64: 'x64',
+    armv7l: 'armhf',
+    armv8l: 'armhf',
+    arm64: 'arm64',
+    aarch64: 'arm64',
+    ppc64le: 'ppc64le',
+    riscv64: 'riscv64',
+    loongarch64: 'loong64',
+    s390x: 's390x'
+};
+const WINDOWS_SERVER_ARCHS: Record<string, string> = {
+    AMD64: 'x64',
+    ARM64: 'arm64'
+};
+
+function errorMessage(err: unknown) {
+    return err instanceof Error ? err.message : String(err);
+}
+
+function isProxied(sshDest: SSHDestination, effectiveConfig: Record<string, string[]> | undefined) {
+    const isSet = (keyword: string) => !!effectiveConfig?.[keyword] && effectiveConfig[keyword][0] !== 'none';
+    return sshDest.jumpHosts.length > 0 || isSet('proxyjump') || isSet('proxycommand');
+}
+
+/**
+ * Connects to `host:port` and reads the identification string the ssh server sends first
+ */
+function probeSSHPort(host: string, port: number, timeout: number): Promise<{ address: string; banner: string | undefined }> {
+    return new Promise((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        let address: string | undefined;
+        let received = '';
+        const finish = () => {
+            socket.destroy();
+            resolve({ address: address!, banner: received.split(/\r?\n/)[0] || undefined });
+        };
+        socket.setTimeout(timeout * 1000, () => {
+            if (address) {
+                finish();
+            } else {
+                socket.destroy();
+                reject(new Error(`Timed out after ${timeout}s connecting to ${host}:${port}`));
+            }
+        });
+        socket.on('connect', () => {
+            address = `${socket.remoteAddress}:${socket.remotePort}`;
+        });
+        socket.on('data', data => {
+            received += data.toString();
+            if (received.includes('\n')) {
+                finish();
+            }
+        });
+        socket.on('error', reject);
+    });
+}
+
+function getBashProbeScript(id: string, serverDataFolderName: string) {
+    return `
+echo "${id}: kernel $(uname -s)"
+echo "${id}: arch $(uname -m)"
+DATA_DIR="$HOME/${serverDataFolderName}"
+if [[ ! -d $DATA_DIR ]]; then
+    DATA_DIR="$HOME"
+fi
+echo "${id}: disk $(df -Pk "$DATA_DIR" 2>/dev/null | tail -n 1 | awk '{print $4}') $DATA_DIR"
+for TOOL in wget curl tar; do
+    if command -v $TOOL >/dev/null 2>&1; then
+        echo "${id}: tool $TOOL"
+    fi
+done
+`;
+}
+
+function getPowerShellProbeScript(id: string, serverDataFolderName: string) {
+    return `
+$DATA_DIR = Join-Path $HOME "${serverDataFolderName}"
+if (-not (Test-Path $DATA_DIR)) {
+    $DATA_DIR = $HOME
+}
+# PROCESSOR_ARCHITEW6432 holds the machine architecture in a 32-bit or emulated shell
+"${id}: arch $(if ($env:PROCESSOR_ARCHITEW6432) { $env:PROCESSOR_ARCHITEW6432 } else { $env:PROCESSOR_ARCHITECTURE })"
+"${id}: disk $([math]::Floor((Get-Item $DATA_DIR).PSDrive.Free / 1024)) $DATA_DIR"
+`;
+}
+
+async function collectDiagnostics(resolver: RemoteSSHResolver, logger: Log, sshDest: SSHDestination, reportStep: (name: string) => void): Promise<DiagnosticResult[]> {
+    const results: DiagnosticResult[] = [];
+    const check = async (name: string, run: () => Promise<Omit<DiagnosticResult, 'name'>>) => {
+        reportStep(name);
+        let result: DiagnosticResult;
+        try {
+            result = { name, ...await run() };
+        } catch (err) {
+            result = { name, status: 'fail', detail: errorMessage(err) };
+        }
+        logger.info(`Diagnostics, ${name}: ${result.status}${result.detail ? ` - ${result.detail}` : ''}`);
+        results.push(result);
+        return result.status;
+    };
+    const skip = (name: string, detail: string) => check(name, async () => ({ status: 'skip', detail }));
+
+    const probe = await resolver.createUnconnectedConnection(sshDest);
+    let effectiveConfig: Record<string, string[]> | undefined;
+    await check('SSH configuration', async () => {
+        effectiveConfig = await probe.getEffectiveConfig();
+        const value = (keyword: string) => effectiveConfig?.[keyword]?.[0] ?? 'unknown';
+        const proxy = isProxied(sshDest, effectiveConfig) ? ', connects through a proxy' : '';
+        return { status: 'pass', detail: `Host ${value('hostname')}, port ${value('port')}, user ${value('user')}${proxy}` };
+    });
+
+    const hostname = effectiveConfig?.['hostname']?.[0] ?? sshDest.hostname;
+    const port = parseInt(effectiveConfig?.['port']?.[0] ?? '', 10) || sshDest.port || 22;
+    const { connectTimeout } = resolver.getResolverSettings(sshDest);
+    if (isProxied(sshDest, effectiveConfig)) {
+        await skip('DNS resolution', 'The host is resolved by the proxy');
+        await skip('TCP connection', 'The host is reached through the proxy');
+    } else {
+        const resolved = await check('DNS resolution', async () => {
+            const addresses = await dns.promises.lookup(hostname, { all: true });
+            return { status: 'pass', detail: `${hostname} resolves to ${addresses.map(entry => entry.address).join(', ')}` };
+        });
+        if (resolved === 'pass') {
+            await check('TCP connection', async () => {
+                const { address, banner } = await probeSSHPort(hostname, port, connectTimeout);
+                return banner?.startsWith('SSH-')
+                    ? { status: 'pass', detail: `Connected to ${address}, server identifies as ${banner}` }
+                    : { status: 'warn', detail: `Connected to ${address} but it didn't identify as an SSH server${banner ? `: ${banner}` : ''}` };
+            });
+        } else {
+            await skip('TCP connection', 'The host could not be resolved');
+        }
+    }
+
+    await check('Authentication methods', async () => {
+        const methods = await probe.getOfferedAuthMethods();
+        return methods.length
+            ? { status: 'pass', detail: `Server offers ${methods.join(', ')}` }
+            : { status: 'pass', detail: 'Server accepts connections without authentication' };
+    });
+
+    const remoteChecks = ['Remote shell', 'Platform and architecture', 'Free disk space', 'Download tools', 'Unix socket forwarding'];
+    let connected = false;
+    try {
+        await resolver.withConnection(sshDest, async (conn, serverHost) => {
+            connected = true;
+            await check('SSH connection', async () => ({ status: 'pass', detail: `Connected to ${sshDest.toDisplayString()}` }));
+            await collectRemoteDiagnostics(conn, serverHost, logger, check);
+        });
+    } catch (err) {
+        if (connected) {
+            throw err;
+        }
+        await check('SSH connection', async () => ({ status: 'fail', detail: errorMessage(err) }));
+        for (const name of remoteChecks) {
+            await skip(name, 'Requires an SSH connection');
+        }
+    }
+
+    return results;
+}
+
+async function collectRemoteDiagnostics(conn: SSHConnection, { platform, serverDataFolderName, remoteServerListenOnSocket }: ServerHost, logger: Log, check: (name: string, run: () => Promise<Omit<DiagnosticResult, 'name'>>) => Promise<DiagnosticStatus>) {
+    let isWindows = false;
+    let shell = '';
+    await check('Remote shell', async () => {
+        ({ platform, shell } = await detectRemoteShell(conn, platform, logger));
+        isWindows = platform === 'windows';
+        if (isWindows) {
+            return { status: 'pass', detail: `Windows host, commands run in ${shell}` };
+        }
+        const { stdout } = await conn.exec('echo $SHELL');
+        return { status: 'pass', detail: `Unix host, login shell ${stdout.trim() || 'unknown'}` };
+    });
+
+    const id = crypto.randomBytes(12).toString('hex');
+    let markers: { type: string; args: string[] }[] = [];
+    const marker = (type: string) => markers.find(entry => entry.type === type)?.args;
+    const probed = await check('Platform and architecture', async () => {
+        const { stdout } = await conn.exec(isWindows ? toPowerShellCommand(getPowerShellProbeScript(id, serverDataFolderName)) : toBashCommand(getBashProbeScript(id, serverDataFolderName)));
+        markers = parseScriptMarkers(stdout, id);
+
+        const arch = marker('arch')?.[0];
+        if (!arch) {
+            throw new Error('Failed to run the platform detection script');
+        }
+        if (isWindows) {
+            const serverArch = WINDOWS_SERVER_ARCHS[arch];
+            return serverArch
+                ? { status: 'pass', detail: `Windows ${arch}, uses the win32-${serverArch} server${serverArch === 'arm64' ? ' or win32-x64 if the release has no arm64 build' : ''}` }
+                : { status: 'fail', detail: `Architecture not supported: ${arch}` };
+        }
+
+        const kernel = marker('kernel')?.[0] ?? 'unknown';
+        const serverPlatform = SUPPORTED_KERNELS[kernel];
+        const serverArch = SERVER_ARCHS[arch];
+        if (!serverPlatform) {
+            return { status: 'fail', detail: `Platform not supported: ${kernel}` };
+        }
+        if (!serverArch) {
+            return { status: 'fail', detail: `Architecture not supported: ${arch}` };
+        }
+        return { status: 'pass', detail: `${kernel} ${arch}, uses the ${serverPlatform}-${serverArch} server` };
+    });
+
+    await check('Free disk space', async () => {
+        const [freeKB, ...dir] = marker('disk') ?? [];
+        const free = parseInt(freeKB, 10);
+        if (probed === 'fail' || isNaN(free)) {
+            return { status: 'warn', detail: 'Could not determine the free disk space' };
+        }
+        return free < MIN_FREE_DISK_SPACE_KB
+            ? { status: 'warn', detail: `Only ${formatSize(free)} free in ${dir.join(' ')}, installing the server may fail` }
+            : { status: 'pass', detail: `${formatSize(free)} free in ${dir.join(' ')}` };
+    });
+
+    await check('Download tools', async () => {
+        if (isWindows) {
+            return { status: 'pass', detail: 'The server is downloaded with PowerShell' };
+        }
+        if (probed === 'fail') {
+            return { status: 'warn', detail: 'Could not determine the available tools' };
+        }
+        const tools = markers.filter(entry => entry.type === 'tool').map(entry => entry.args[0]);
+        if (!tools.includes('tar')) {
+            return { status: 'fail', detail: 'tar is not installed, it is needed to extract the server' };
+        }
+        if (!tools.includes('wget') && !tools.includes('curl')) {
+            return { status: 'warn', detail: 'Neither wget nor curl is installed, the server has to be downloaded locally and uploaded' };
+        }
+        return { status: 'pass', detail: `Found ${tools.join(', ')}` };
+    });
+
+    await check('Unix socket forwarding', async () => {
+        const { status, detail } = await conn.checkStreamLocalForwarding(isWindows);
+        if (status === 'allowed') {
+            return { status: 'pass', detail: 'The server allows forwarding unix sockets' };
+        }
+        if (status === 'prohibited') {
+            return {
+                status: 'warn',
+                detail: `The server refuses forwarding unix sockets (AllowStreamLocalForwarding)${remoteServerListenOnSocket ? ', the vscode server will listen on a port instead of a socket' : ''}: ${detail}`
+            };
+        }
+        return { status: 'warn', detail: 'Could not determine whether the server allows forwarding unix sockets' };
+    });
+}
+
+function renderReport(sshDest: SSHDestination, results: DiagnosticResult[]) {
+    const escape = (text: string) => redact(text).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    const count = (status: DiagnosticStatus) => results.filter(result => result.status === status).length;
+    return [
+        `# Remote - SSH Connection Diagnostics`,
+        '',
+        `**Host:** ${escape(sshDest.toDisplayString())}  `,
+        `**Date:** ${new Date().toISOString()}  `,
+        `**Summary:** ${count('pass')} passed, ${count('fail')} failed, ${count('warn')} warnings, ${count('skip')} skipped`,
+        '',
+        '| | Check | Result |',
+        '|---|---|---|',
+        ...results.map(result => `| ${STATUS_ICONS[result.status]} | ${result.name} | ${escape(result.detail)} |`),
+        ''
+    ].join('\n');
+}
+
+export async function runConnectionDiagnostics(resolver: RemoteSSHResolver, logger: Log, sshDest?: SSHDestination) {
+    sshDest = sshDest ?? resolver.getConnectedDestination() ?? await pickHost();
+    if (!sshDest) {
+        return;
+    }
+
+    let results: DiagnosticResult[];
+    try {
+        results = await vscode.window.withProgress({
+            title: `Running connection diagnostics for ${sshDest.toDisplayString()}`,
+            location: vscode.ProgressLocation.Notification
+        }, progress => collectDiagnostics(resolver, logger, sshDest!, name => progress.report({ message: name })));
+    } catch (err) {
+        logger.error(`Failed to run connection diagnostics for ${sshDest.toDisplayString()}`, err);
+        vscode.window.showErrorMessage(`Failed to run connection diagnostics for ${sshDest.toDisplayString()}: ${errorMessage(err)}`);
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: renderReport(sshDest, results) });
+    await vscode.window.showTextDocument(document);
+}
@@ -1,12 +1,17 @@
 import * as vscode from 'vscode';
 import Log from './common/logger';
 import { RemoteSSHResolver, REMOTE_SSH_AUTHORITY } from './authResolver';
-import { promptOpenRemoteSSHWindow } from './commands';
+import { openSSHConfigFile, promptOpenRemoteSSHWindow } from './commands';
+import { ConnectionStatusBar } from './connectionStatus';
+import { runConnectionDiagnostics } from './diagnostics';
 import { HostTreeDataProvider } from './hostTreeProvider';
 import { getRemoteWorkspaceLocationData, RemoteLocationHistory } from './remoteLocationHistory';
+import { cleanUpOldServersOnHost, killServerOnHost, reinstallServerOnHost } from './serverManagement';
+import { RemoteServerLog } from './serverLog';
+import SSHDestination from './ssh/sshDestination';
 
 export async function activate(context: vscode.ExtensionContext) {
-    const logger = new Log('Remote - SSH');
+    const logger = new Log('Remote - SSH', context.logUri);
     context.subscriptions.push(logger);
 
     const remoteSSHResolver = new RemoteSSHResolver(context, logger);
@@ -25,7 +30,22 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(vscode.commands.registerCommand('openremotessh.openEmptyWindow', () => promptOpenRemoteSSHWindow(false)));
     context.subscriptions.push(vscode.commands.registerCommand('openremotessh.openEmptyWindowInCurrentWindow', () => promptOpenRemoteSSHWindow(true)));
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.openConfigFile', () => openSSHConfigFile()));
     context.subscriptions.push(vscode.commands.registerCommand('openremotessh.showLog', () => logger.show()));
+
+    const connectionStatusBar = new ConnectionStatusBar(remoteSSHResolver, logger);
+    context.subscriptions.push(connectionStatusBar);
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.showConnectionMenu', () => connectionStatusBar.showMenu()));
+
+    const remoteServerLog = new RemoteServerLog(remoteSSHResolver, logger);
+    context.subscriptions.push(remoteServerLog);
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.showServerLog', () => remoteServerLog.show()));
+
+    // Invoked from the hosts view with the host item, otherwise the host is picked
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.runDiagnostics', (e?: { sshDest: SSHDestination }) => runConnectionDiagnostics(remoteSSHResolver, logger, e?.sshDest)));
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.killServer', (e?: { sshDest: SSHDestination }) => killServerOnHost(remoteSSHResolver, logger, e?.sshDest)));
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.reinstallServer', (e?: { sshDest: SSHDestination }) => reinstallServerOnHost(remoteSSHResolver, logger, e?.sshDest)));
+    context.subscriptions.push(vscode.commands.registerCommand('openremotessh.cleanUpOldServers', (e?: { sshDest: SSHDestination }) => cleanUpOldServersOnHost(remoteSSHResolver, logger, e?.sshDest)));
 }
 
 export function deactivate() {
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import Log from './common/logger';
+import SSHDestination from './ssh/sshDestination';
+import { matchPatternList } from './ssh/sshConfig';
+import { LocalServerDownloadMode } from './serverSetup';
+
+// Settings that can be overridden per host in `remote.SSH.hosts`
+export interface HostSettingsOverrides {
+    serverDownloadUrlTemplate?: string;
+    serverChecksumUrlTemplate?: string;
+    connectTimeout?: number;
+    remoteServerListenOnSocket?: boolean;
+    defaultExtensions?: string[];
+    serverDataFolderName?: string;
+    remotePlatform?: string;
+    captureEnvVariables?: string[];
+    remoteEnv?: Record<string, string>;
+    localServerDownload?: LocalServerDownloadMode;
+    shareConnection?: boolean;
+}
+
+const OVERRIDE_TYPES: Record<keyof HostSettingsOverrides, 'string' | 'number' | 'boolean' | 'array' | 'object'> = {
+    serverDownloadUrlTemplate: 'string',
+    serverChecksumUrlTemplate: 'string',
+    connectTimeout: 'number',
+    remoteServerListenOnSocket: 'boolean',
+    defaultExtensions: 'array',
+    serverDataFolderName: 'string',
+    remotePlatform: 'string',
+    captureEnvVariables: 'array',
+    remoteEnv: 'object',
+    localServerDownload: 'string',
+    shareConnection: 'boolean'
+};
+
+function getValueType(value: unknown) {
+    return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+}
+
+/**
+ * Overrides of the hosts entries whose pattern matches the alias or hostname of `sshDest`, entries
+ * are applied in the order they are defined so the later ones take precedence
+ */
+export function getHostSettingsOverrides(sshDest: SSHDestination, logger: Log): HostSettingsOverrides {
+    const hosts = vscode.workspace.getConfiguration('remote.SSH').get<Record<string, Record<string, unknown>>>('hosts', {});
+    const names = sshDest.alias ? [sshDest.alias, sshDest.hostname] : [sshDest.hostname];
+
+    const overrides: Record<string, unknown> = {};
+    for (const [pattern, settings] of Object.entries(hosts)) {
+        if (!names.some(name => matchPatternList(name, [pattern]))) {
+            continue;
+        }
+
+        const applied: string[] = [];
+        for (const [key, value] of Object.entries(settings ?? {})) {
+            const expectedType = OVERRIDE_TYPES[key as keyof HostSettingsOverrides];
+            if (!expectedType) {
+                logger.warn(`Ignoring unknown setting '${key}' for hosts matching '${pattern}'`);
+            } else if (getValueType(value) !== expectedType) {
+                logger.warn(`Ignoring setting '${key}' for hosts matching '${pattern}', expected a value of type ${expectedType}`);
+            } else {
+                overrides[key] = value;
+                applied.push(key);
+            }
+        }
+        logger.info(`Settings for hosts matching '${pattern}' applied to ${sshDest.toDisplayString()}: ${applied.join(', ') || 'none'}`);
+    }
+    return overrides;
+}
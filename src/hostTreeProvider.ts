@@ -2,12 +2,13 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { RemoteLocationHistory } from './remoteLocationHistory';
 import { Disposable } from './common/disposable';
-import { openRemoteSSHLocationWindow, openRemoteSSHWindow } from './commands';
+import { getConfiguredHostDestination, openRemoteSSHLocationWindow, openRemoteSSHWindow } from './commands';
 import SSHDestination from './ssh/sshDestination';
+import SSHConfiguration from './ssh/sshConfig';
 
 class HostItem {
     constructor(
-        public hostname: string,
+        public sshDest: SSHDestination,
         public locations: string[]
     ) {
     }
@@ -16,7 +17,7 @@ class HostItem {
 class HostLocationItem {
     constructor(
         public path: string,
-        public hostname: string
+        public sshDest: SSHDestination
     ) {
     }
 }
@@ -51,7 +52,7 @@ export class HostTreeDataProvider extends Disposable implements vscode.TreeDataP
             return treeItem;
         }
 
-        const treeItem = new vscode.TreeItem(element.hostname);
+        const treeItem = new vscode.TreeItem(element.sshDest.toDisplayString());
         treeItem.collapsibleState = element.locations.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
         treeItem.iconPath = new vscode.ThemeIcon('vm');
         treeItem.contextValue = 'openremotessh.explorer.host';
@@ -61,12 +62,15 @@ export class HostTreeDataProvider extends Disposable implements vscode.TreeDataP
     async getChildren(element?: HostItem): Promise<DataTreeItem[]> {
         if (!element) {
             const locationHistory = this.locationHistory.getHistory();
+            const sshConfig = await SSHConfiguration.loadFromFS();
+            const configuredHosts = sshConfig.getAllConfiguredHosts().map(alias => getConfiguredHostDestination(sshConfig, alias).toEncodedString());
+            const hosts = new Set([...configuredHosts, ...Object.keys(locationHistory)]);
 
-            return Object.entries(locationHistory).map(([host,locations]) => new HostItem(host, locations));
+            return [...hosts].map(host => new HostItem(SSHDestination.parseEncoded(host), locationHistory[host] || []));
         }
         
         if (element instanceof HostItem) {
-            return element.locations.map(location => new HostLocationItem(location, element.hostname));
+            return element.locations.map(location => new HostLocationItem(location, element.sshDest));
         }
         return [];
     }
@@ -76,17 +80,15 @@ export class HostTreeDataProvider extends Disposable implements vscode.TreeDataP
     }
 
     private async deleteHostLocation(element: HostLocationItem) {
-        await this.locationHistory.removeLocation(element.hostname, element.path);
+        await this.locationHistory.removeLocation(element.sshDest.toEncodedString(), element.path);
         this.refresh();
     }
 
     private async openRemoteSSHWindow(element: HostItem, reuseWindow: boolean) {
-        const sshDest = new SSHDestination(element.hostname);
-        openRemoteSSHWindow(sshDest.toEncodedString(), reuseWindow);
+        openRemoteSSHWindow(element.sshDest.toEncodedString(), reuseWindow);
     }
 
     private async openRemoteSSHLocationWindow(element: HostLocationItem, reuseWindow: boolean) {
-        const sshDest = new SSHDestination(element.hostname);
-        openRemoteSSHLocationWindow(sshDest.toEncodedString(), element.path, reuseWindow);
+        openRemoteSSHLocationWindow(element.sshDest.toEncodedString(), element.path, reuseWindow);
     }
 }
\ No newline at end of file
@@ -4,13 +4,20 @@ import SSHDestination from './ssh/sshDestination';
 import Log from './common/logger';
 
 export class RemoteLocationHistory {
-    private static STORAGE_KEY = 'remoteLocationHistory_v0';
+    private static STORAGE_KEY = 'remoteLocationHistory_v1';
+    private static STORAGE_KEY_V0 = 'remoteLocationHistory_v0';
 
+    // Keyed by the encoded ssh destination so user, port, jump hosts, etc. are preserved
     private remoteLocationHistory: Record<string, string[]> = {};
 
     constructor(private context: vscode.ExtensionContext) {
         // context.globalState.update(RemoteLocationHistory.STORAGE_KEY, undefined);
-        this.remoteLocationHistory = context.globalState.get(RemoteLocationHistory.STORAGE_KEY) || {};
+        this.remoteLocationHistory = context.globalState.get(RemoteLocationHistory.STORAGE_KEY) || this.migrateV0History();
+    }
+
+    private migrateV0History(): Record<string, string[]> {
+        const historyV0 = this.context.globalState.get<Record<string, string[]>>(RemoteLocationHistory.STORAGE_KEY_V0) || {};
+        return Object.fromEntries(Object.entries(historyV0).map(([host, locations]) => [new SSHDestination(host).toEncodedString(), locations]));
     }
 
     getHistory(): Record<string, string[]> {
@@ -42,7 +49,7 @@ export function getRemoteWorkspaceLocationData(logger: Log): [string, string] |
     if (location && location.scheme === 'vscode-remote' && location.authority.startsWith(REMOTE_SSH_AUTHORITY) && location.path.endsWith('.code-workspace')) {
         const [, host] = location.authority.split('+');
         const sshDest = SSHDestination.parseEncoded(host);
-        return [sshDest.hostname, location.path];
+        return [sshDest.toEncodedString(), location.path];
     }
 
     location = vscode.workspace.workspaceFolders?.[0].uri;
@@ -50,7 +57,7 @@ export function getRemoteWorkspaceLocationData(logger: Log): [string, string] |
     if (location && location.scheme === 'vscode-remote' && location.authority.startsWith(REMOTE_SSH_AUTHORITY)) {
         const [, host] = location.authority.split('+');
         const sshDest = SSHDestination.parseEncoded(host);
-        return [sshDest.hostname, location.path];
+        return [sshDest.toEncodedString(), location.path];
     }
 
     return undefined;
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as https from 'https';
+import * as http from 'http';
+import Log from './common/logger';
+import { exists as fileExists } from './common/files';
+
+const MAX_REDIRECTS = 10;
+const DOWNLOAD_IDLE_TIMEOUT = 30 * 1000;
+
+export function getServerTarballName(commit: string, platform: string, arch: string) {
+    return `vscode-server-${commit}-${platform}-${arch}.tar.gz`;
+}
+
+/**
+ * Returns the path of the server tarball in the local cache directory, downloading it first if it's not there.
+ * Tarballs can be placed in the cache directory beforehand for clients without internet access.
+ */
+export async function getLocalServerTarball(downloadUrl: string, cacheDir: string, fileName: string, logger: Log, onProgress?: (percent: number) => void): Promise<string> {
+    const tarballPath = path.join(cacheDir, fileName);
+    if (await fileExists(tarballPath)) {
+        logger.info(`Using cached server tarball ${tarballPath}`);
+        return tarballPath;
+    }
+
+    await fs.promises.mkdir(cacheDir, { recursive: true });
+
+    // Download to a temporary file so an interrupted download never ends up in the cache
+    const partialPath = `${tarballPath}.${crypto.randomBytes(4).toString('hex')}.part`;
+    logger.info(`Downloading server tarball from ${downloadUrl}`);
+    try {
+        await downloadFile(downloadUrl, partialPath, onProgress);
+        if (!(await isGzipFile(partialPath))) {
+            throw new Error(`Downloaded file from ${downloadUrl} is not a gzip archive`);
+        }
+        await fs.promises.rename(partialPath, tarballPath);
+    } catch (err) {
+        await fs.promises.rm(partialPath, { force: true }).catch(() => { });
+        throw err;
+    }
+
+    return tarballPath;
+}
+
+export async function computeFileSha256(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+}
+
+async function isGzipFile(filePath: string): Promise<boolean> {
+    const fd = await fs.promises.open(filePath, 'r');
+    try {
+        const { buffer, bytesRead } = await fd.read(Buffer.alloc(2), 0, 2, 0);
+        return bytesRead === 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+    } finally {
+        await fd.close();
+    }
+}
+
+/**
+ * Parses a checksum file in the `sha256sum` output format, returns the hash of the first entry
+ */
+export function parseChecksumFile(content: string): string | undefined {
+    const hash = content.trim().split(/\s+/)[0]?.toLowerCase();
+    return hash && /^[0-9a-f]{64}$/.test(hash) ? hash : undefined;
+}
+
+export async function fetchText(url: string): Promise<string> {
+    const response = await openUrl(url);
+    let content = '';
+    response.setEncoding('utf8');
+    for await (const chunk of response) {
+        content += chunk;
+    }
+    return content;
+}
+
+async function downloadFile(url: string, destPath: string, onProgress?: (percent: number) => void): Promise<void> {
+    const response = await openUrl(url);
+    const size = parseInt(response.headers['content-length'] || '', 10);
+    if (onProgress && size > 0) {
+        let downloaded = 0;
+        let lastPercent = -1;
+        response.on('data', (chunk: Buffer) => {
+            downloaded += chunk.length;
+            const percent = Math.floor(downloaded * 100 / size);
+            if (percent !== lastPercent) {
+                lastPercent = percent;
+                onProgress(percent);
+            }
+        });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        const file = fs.createWriteStream(destPath);
+        response.pipe(file);
+        response.on('error', reject);
+        file.on('error', reject);
+        file.on('finish', () => resolve());
+    });
+}
+
+function openUrl(url: string, redirects = 0): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const get = url.startsWith('http:') ? http.get : https.get;
+        const request = get(url, response => {
+            const { statusCode = 0, headers } = response;
+            if (statusCode >= 300 && statusCode < 400 && headers.location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    reject(new Error(`Too many redirects downloading ${url}`));
+                    return;
+                }
+                openUrl(new URL(headers.location, url).toString(), redirects + 1).then(resolve, reject);
+                return;
+            }
+
+            if (statusCode !== 200) {
+                response.resume();
+                reject(new Error(`Failed downloading ${url}, server responded with status ${statusCode}`));
+                return;
+            }
+
+            resolve(response);
+        });
+        request.setTimeout(DOWNLOAD_IDLE_TIMEOUT, () => {
+            request.destroy(new Error(`Timed out downloading ${url}`));
+        });
+        request.on('error', reject);
+    });
+}
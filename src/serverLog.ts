@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import Log from './common/logger';
+import { Disposable } from './common/disposable';
+import { RemoteSSHResolver } from './authResolver';
+import { SSHCancelledError } from './ssh/sshConnection';
+
+function getFollowLogCommand(logFile: string, platform: string) {
+    if (platform === 'win32') {
+        return `powershell -NoProfile -NonInteractive -Command "Get-Content -Wait '${logFile.replace(/'/g, `''`)}'"`;
+    }
+    // Follow the file by name as it's recreated when the server restarts
+    return `tail -n +1 -F '${logFile.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Follows the log of the server this window is connected to in its own output channel
+ */
+export class RemoteServerLog extends Disposable {
+    private output: vscode.OutputChannel | undefined;
+    private followCancellation: vscode.CancellationTokenSource | undefined;
+
+    constructor(
+        private readonly resolver: RemoteSSHResolver,
+        private readonly logger: Log
+    ) {
+        super();
+    }
+
+    async show() {
+        const serverLog = this.resolver.getConnectedServerLog();
+        if (!serverLog) {
+            vscode.window.showInformationMessage('This window is not connected to an SSH host.');
+            return;
+        }
+
+        if (!this.output) {
+            this.output = this._register(vscode.window.createOutputChannel('Remote - SSH Server Log'));
+        }
+        const output = this.output;
+        output.show();
+        if (this.followCancellation) {
+            return;
+        }
+
+        const { sshDest, logFile, platform } = serverLog;
+        const cancellation = this.followCancellation = new vscode.CancellationTokenSource();
+        output.clear();
+        this.logger.info(`Following the server log ${logFile} on ${sshDest.toDisplayString()}`);
+        try {
+            const exitCode = await this.resolver.withConnection(sshDest, sshConnection => sshConnection.execStream(getFollowLogCommand(logFile, platform), data => output.append(data), { token: cancellation.token }));
+            output.appendLine(`[Stopped following ${logFile}, the command exited with code ${exitCode}]`);
+        } catch (err) {
+            if (!(err instanceof SSHCancelledError)) {
+                this.logger.error(`Failed to follow the server log ${logFile}`, err);
+                output.appendLine(`[Failed to follow ${logFile}: ${err instanceof Error ? err.message : String(err)}]`);
+            }
+        } finally {
+            if (this.followCancellation === cancellation) {
+                this.followCancellation = undefined;
+            }
+            cancellation.dispose();
+        }
+    }
+
+    override dispose() {
+        this.followCancellation?.cancel();
+        super.dispose();
+    }
+}
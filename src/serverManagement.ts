@@ -0,0 +1,355 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import Log from './common/logger';
+import SSHConnection from './ssh/sshConnection';
+import SSHDestination from './ssh/sshDestination';
+import { RemoteSSHResolver, ServerHost } from './authResolver';
+import { openRemoteSSHWindow, pickHost } from './commands';
+import { getVSCodeServerConfig } from './serverConfig';
+import { parseScriptMarkers, toBashCommand, toPowerShellCommand } from './serverSetup';
+
+export interface InstalledServer {
+    commit: string;
+    sizeKB: number;
+    running: boolean;
+}
+
+// Directory names are interpolated in the remote scripts, anything unexpected is skipped
+const COMMIT_REGEX = /^[\w.-]+$/;
+
+async function isWindowsHost(conn: SSHConnection, platform: string | undefined): Promise<boolean> {
+    if (platform) {
+        return platform === 'windows';
+    }
+
+    // Only a positive match is treated as windows, a failed `uname` on another host falls back to bash
+    const result = await conn.exec('uname -s', undefined, { ignoreExitCode: true });
+    if (result.stdout) {
+        return /windows32|MINGW|MSYS/.test(result.stdout);
+    }
+    return result.stderr.includes('CommandNotFoundException') || result.stderr.includes('is not recognized as an internal or external command');
+}
+
+async function runManagementScript(conn: SSHConnection, { platform, serverDataFolderName }: ServerHost, generateScript: (id: string, serverDataFolderName: string) => { bash: string; powershell: string }) {
+    const id = crypto.randomBytes(12).toString('hex');
+    const scripts = generateScript(id, serverDataFolderName);
+
+    const command = await isWindowsHost(conn, platform)
+        ? toPowerShellCommand(getPowerShellPreamble(serverDataFolderName, id) + scripts.powershell)
+        : toBashCommand(getBashPreamble(serverDataFolderName, id) + scripts.bash);
+    const { stdout } = await conn.exec(command);
+    return parseScriptMarkers(stdout, id);
+}
+
+/**
+ * Lists the server versions installed in the server data folder with their disk usage
+ */
+export async function listInstalledServers(conn: SSHConnection, serverHost: ServerHost): Promise<InstalledServer[]> {
+    const markers = await runManagementScript(conn, serverHost, id => ({
+        bash: `
+if [[ -d $SERVER_DATA_DIR/bin ]]; then
+    for SERVER_DIR in "$SERVER_DATA_DIR"/bin/*/; do
+        COMMIT="$(basename "$SERVER_DIR")"
+        SIZE="$(du -sk "$SERVER_DIR" 2>/dev/null | cut -f1)"
+        RUNNING=0
+        if is_server_running "$COMMIT"; then
+            RUNNING=1
+        fi
+        echo "${id}: server $COMMIT \${SIZE:-0} $RUNNING"
+    done
+fi
+`,
+        powershell: `
+if(Test-Path "$SERVER_DATA_DIR\\bin") {
+    Get-ChildItem -Directory "$SERVER_DATA_DIR\\bin" | ForEach-Object {
+        $SIZE = (Get-ChildItem -Recurse -File -Force $_.FullName | Measure-Object -Property Length -Sum).Sum
+        $RUNNING = 0
+        if(Test-ServerRunning $_.Name) {
+            $RUNNING = 1
+        }
+        Write-Output "${id}: server $($_.Name) $([math]::Ceiling($SIZE / 1024)) $RUNNING"
+    }
+}
+`
+    }));
+
+    return markers
+        .filter(({ type, args }) => type === 'server' && COMMIT_REGEX.test(args[0]))
+        .map(({ args }) => ({ commit: args[0], sizeKB: parseInt(args[1], 10) || 0, running: args[2] === '1' }));
+}
+
+/**
+ * Kills the running servers of the given versions, or of every version if none are given.
+ * Returns the versions that were running.
+ */
+export async function killServers(conn: SSHConnection, serverHost: ServerHost, commits?: string[]): Promise<string[]> {
+    const bashCommits = commits ? commits.map(commit => `"${commit}"`).join(' ') : `$(list_server_pidfiles)`;
+    const powershellCommits = commits ? commits.map(commit => `'${commit}'`).join(', ') : `$(Get-ServerPidFiles)`;
+    const markers = await runManagementScript(conn, serverHost, () => ({
+        bash: `
+for COMMIT in ${bashCommits}; do
+    kill_server "$COMMIT"
+done
+`,
+        powershell: `
+foreach($COMMIT in @(${powershellCommits})) {
+    Stop-Server $COMMIT
+}
+`
+    }));
+
+    return markers.filter(({ type }) => type === 'killed').map(({ args }) => args[0]);
+}
+
+/**
+ * Kills and removes the given server versions along with their log, pid and token files.
+ * Returns the versions that were removed.
+ */
+export async function deleteServers(conn: SSHConnection, serverHost: ServerHost, commits: string[]): Promise<string[]> {
+    const markers = await runManagementScript(conn, serverHost, id => ({
+        bash: `
+for COMMIT in ${commits.map(commit => `"${commit}"`).join(' ')}; do
+    kill_server "$COMMIT"
+    if rm -rf "$SERVER_DATA_DIR/bin/$COMMIT" "$SERVER_DATA_DIR/.$COMMIT.log" "$SERVER_DATA_DIR/.$COMMIT.token"; then
+        echo "${id}: deleted $COMMIT"
+    fi
+done
+`,
+        powershell: `
+foreach($COMMIT in @(${commits.map(commit => `'${commit}'`).join(', ')})) {
+    Stop-Server $COMMIT
+    $FAILED = $false
+    foreach($ITEM_PATH in @("$SERVER_DATA_DIR\\bin\\$COMMIT", "$SERVER_DATA_DIR\\.$COMMIT.log", "$SERVER_DATA_DIR\\.$COMMIT.token", "$SERVER_DATA_DIR\\install\\$COMMIT.ps1")) {
+        if(Test-Path $ITEM_PATH) {
+            Remove-Item -Recurse -Force $ITEM_PATH -ErrorAction SilentlyContinue
+            if(Test-Path $ITEM_PATH) {
+                $FAILED = $true
+            }
+        }
+    }
+    if(-not $FAILED) {
+        Write-Output "${id}: deleted $COMMIT"
+    }
+}
+`
+    }));
+
+    return markers.filter(({ type }) => type === 'deleted').map(({ args }) => args[0]);
+}
+
+function getBashPreamble(serverDataFolderName: string, id: string) {
+    return `
+SERVER_DATA_DIR="$HOME/${serverDataFolderName}"
+
+# The pid could have been reused, check it's still running a server from this version
+is_server_running() {
+    local SERVER_PID
+    SERVER_PID="$(cat "$SERVER_DATA_DIR/.$1.pid" 2>/dev/null)"
+    [[ -n $SERVER_PID ]] && ps -o args= -p "$SERVER_PID" 2>/dev/null | grep -qF "$SERVER_DATA_DIR/bin/$1/"
+}
+
+kill_tree() {
+    local CHILD_PID
+    for CHILD_PID in $(pgrep -P "$1" 2>/dev/null); do
+        kill_tree "$CHILD_PID"
+    done
+    kill "$1" 2>/dev/null
+}
+
+kill_server() {
+    if is_server_running "$1"; then
+        kill_tree "$(cat "$SERVER_DATA_DIR/.$1.pid")"
+        echo "${id}: killed $1"
+    fi
+    rm -f "$SERVER_DATA_DIR/.$1.pid"
+}
+
+list_server_pidfiles() {
+    local PIDFILE
+    for PIDFILE in "$SERVER_DATA_DIR"/.*.pid; do
+        if [[ -f $PIDFILE ]]; then
+            PIDFILE="$(basename "$PIDFILE" .pid)"
+            echo "\${PIDFILE#.}"
+        fi
+    done
+}
+`;
+}
+
+function getPowerShellPreamble(serverDataFolderName: string, id: string) {
+    return `
+$SERVER_DATA_DIR="$(Resolve-Path ~)\\${serverDataFolderName}"
+
+function Get-ServerPid($COMMIT) {
+    $PIDFILE = "$SERVER_DATA_DIR\\.$COMMIT.pid"
+    if(Test-Path $PIDFILE) {
+        return Get-Content $PIDFILE | Select-Object -First 1
+    }
+}
+
+function Test-ServerRunning($COMMIT) {
+    $SERVER_PID = Get-ServerPid $COMMIT
+    return [bool]($SERVER_PID -and (Get-Process -Id $SERVER_PID -ErrorAction SilentlyContinue))
+}
+
+function Stop-Server($COMMIT) {
+    if(Test-ServerRunning $COMMIT) {
+        taskkill /T /F /PID (Get-ServerPid $COMMIT) | Out-Null
+        Write-Output "${id}: killed $COMMIT"
+    }
+    Remove-Item -Force "$SERVER_DATA_DIR\\.$COMMIT.pid" -ErrorAction SilentlyContinue
+}
+
+function Get-ServerPidFiles {
+    Get-ChildItem -Force -File "$SERVER_DATA_DIR\\.*.pid" -ErrorAction SilentlyContinue | ForEach-Object { $_.BaseName.Substring(1) }
+}
+`;
+}
+
+export function formatSize(sizeKB: number) {
+    if (sizeKB >= 1024 * 1024) {
+        return `${(sizeKB / 1024 / 1024).toFixed(1)} GB`;
+    }
+    if (sizeKB >= 1024) {
+        return `${(sizeKB / 1024).toFixed(1)} MB`;
+    }
+    return `${sizeKB} KB`;
+}
+
+/**
+ * Host targeted by the server commands, the one this window is connected to or one picked by the user
+ */
+async function getTargetHost(resolver: RemoteSSHResolver, sshDest: SSHDestination | undefined) {
+    return sshDest ?? resolver.getConnectedDestination() ?? await pickHost();
+}
+
+function isConnectedHost(resolver: RemoteSSHResolver, sshDest: SSHDestination) {
+    return resolver.getConnectedDestination()?.toEncodedString() === sshDest.toEncodedString();
+}
+
+function showCommandError(logger: Log, message: string, err: unknown) {
+    logger.error(message, err);
+    vscode.window.showErrorMessage(`${message}: ${err instanceof Error ? err.message : String(err)}`);
+}
+
+export async function killServerOnHost(resolver: RemoteSSHResolver, logger: Log, sshDest?: SSHDestination) {
+    sshDest = await getTargetHost(resolver, sshDest);
+    if (!sshDest) {
+        return;
+    }
+
+    const kill = 'Kill Server';
+    const action = await vscode.window.showWarningMessage(`Kill the VS Code Server on ${sshDest.toDisplayString()}?`, { modal: true, detail: 'Every window connected to it will be disconnected.' }, kill);
+    if (action !== kill) {
+        return;
+    }
+
+    let killed: string[];
+    try {
+        killed = await vscode.window.withProgress({
+            title: `Killing VS Code Server on ${sshDest.toDisplayString()}`,
+            location: vscode.ProgressLocation.Notification
+        }, () => resolver.withConnection(sshDest!, (conn, serverHost) => killServers(conn, serverHost)));
+    } catch (err) {
+        showCommandError(logger, `Failed to kill the VS Code Server on ${sshDest.toDisplayString()}`, err);
+        return;
+    }
+
+    logger.info(`Killed VS Code Server versions on ${sshDest.toDisplayString()}: ${killed.join(', ') || 'none running'}`);
+    if (isConnectedHost(resolver, sshDest)) {
+        vscode.commands.executeCommand('workbench.action.reloadWindow');
+    } else {
+        vscode.window.showInformationMessage(killed.length ? `Killed the VS Code Server on ${sshDest.toDisplayString()}.` : `No VS Code Server is running on ${sshDest.toDisplayString()}.`);
+    }
+}
+
+export async function reinstallServerOnHost(resolver: RemoteSSHResolver, logger: Log, sshDest?: SSHDestination) {
+    sshDest = await getTargetHost(resolver, sshDest);
+    if (!sshDest) {
+        return;
+    }
+
+    const { commit } = await getVSCodeServerConfig();
+    const reinstall = 'Delete and Reinstall';
+    const action = await vscode.window.showWarningMessage(`Delete the VS Code Server on ${sshDest.toDisplayString()} and reinstall it?`, { modal: true, detail: `Version ${commit} is killed and removed, it's installed again on the next connection.` }, reinstall);
+    if (action !== reinstall) {
+        return;
+    }
+
+    try {
+        const deleted = await vscode.window.withProgress({
+            title: `Deleting VS Code Server on ${sshDest.toDisplayString()}`,
+            location: vscode.ProgressLocation.Notification
+        }, () => resolver.withConnection(sshDest!, (conn, serverHost) => deleteServers(conn, serverHost, [commit])));
+        if (!deleted.includes(commit)) {
+            throw new Error(`some files of version ${commit} could not be removed`);
+        }
+    } catch (err) {
+        showCommandError(logger, `Failed to delete the VS Code Server on ${sshDest.toDisplayString()}`, err);
+        return;
+    }
+
+    logger.info(`Deleted VS Code Server ${commit} on ${sshDest.toDisplayString()}`);
+    if (isConnectedHost(resolver, sshDest)) {
+        vscode.commands.executeCommand('workbench.action.reloadWindow');
+        return;
+    }
+
+    const connect = 'Connect';
+    const connectAction = await vscode.window.showInformationMessage(`Deleted the VS Code Server on ${sshDest.toDisplayString()}, connect to install it again.`, connect);
+    if (connectAction === connect) {
+        openRemoteSSHWindow(sshDest.toEncodedString(), false);
+    }
+}
+
+export async function cleanUpOldServersOnHost(resolver: RemoteSSHResolver, logger: Log, sshDest?: SSHDestination) {
+    sshDest = await getTargetHost(resolver, sshDest);
+    if (!sshDest) {
+        return;
+    }
+
+    const { commit } = await getVSCodeServerConfig();
+    try {
+        await vscode.window.withProgress({
+            // Kept in the status bar as it stays up while the versions to delete are picked
+            title: `Cleaning up VS Code Server versions on ${sshDest.toDisplayString()}`,
+            location: vscode.ProgressLocation.Window
+        }, () => resolver.withConnection(sshDest!, async (conn, serverHost) => {
+            const servers = await listInstalledServers(conn, serverHost);
+            const current = servers.find(server => server.commit === commit);
+            const oldServers = servers.filter(server => server !== current);
+            if (!oldServers.length) {
+                vscode.window.showInformationMessage(`No old VS Code Server versions installed on ${sshDest!.toDisplayString()}.`);
+                return;
+            }
+
+            const items = oldServers.map(server => ({
+                label: server.commit,
+                description: server.running ? `${formatSize(server.sizeKB)}, running` : formatSize(server.sizeKB),
+                picked: true,
+                server
+            }));
+            const selected = await vscode.window.showQuickPick(items, {
+                title: `Delete VS Code Server versions from ${sshDest!.toDisplayString()}`,
+                placeHolder: current ? `Current version ${commit} (${formatSize(current.sizeKB)}) is kept` : `${formatSize(oldServers.reduce((total, server) => total + server.sizeKB, 0))} used by old versions`,
+                canPickMany: true,
+                ignoreFocusOut: true
+            });
+            if (!selected?.length) {
+                return;
+            }
+
+            const deleted = await deleteServers(conn, serverHost, selected.map(item => item.server.commit));
+            const freedKB = selected.filter(item => deleted.includes(item.server.commit)).reduce((total, item) => total + item.server.sizeKB, 0);
+            logger.info(`Deleted VS Code Server versions on ${sshDest!.toDisplayString()}: ${deleted.join(', ')}`);
+            if (deleted.length < selected.length) {
+                const failed = selected.map(item => item.server.commit).filter(c => !deleted.includes(c));
+                vscode.window.showWarningMessage(`Deleted ${deleted.length} VS Code Server versions (${formatSize(freedKB)}), could not delete ${failed.join(', ')}.`);
+            } else {
+                vscode.window.showInformationMessage(`Deleted ${deleted.length} VS Code Server versions, freed ${formatSize(freedKB)}.`);
+            }
+        }));
+    } catch (err) {
+        showCommandError(logger, `Failed to clean up VS Code Server versions on ${sshDest.toDisplayString()}`, err);
+    }
+}
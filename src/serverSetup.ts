@@ -1,7 +1,37 @@
+import * as vscode from 'vscode';
 import * as crypto from 'crypto';
+import * as fs from 'fs';
 import Log from './common/logger';
 import { getVSCodeServerConfig } from './serverConfig';
-import SSHConnection from './ssh/sshConnection';
+import { computeFileSha256, fetchText, getLocalServerTarball, getServerTarballName, parseChecksumFile } from './serverDownload';
+import SSHConnection, { SSHCancelledError } from './ssh/sshConnection';
+
+/**
+ * When the server tarball is downloaded on the client and uploaded through the ssh connection:
+ * - auto: only if downloading on the remote fails
+ * - always: the remote never downloads the server itself
+ * - off: never
+ */
+export type LocalServerDownloadMode = 'auto' | 'always' | 'off';
+
+export interface LocalServerDownloadOptions {
+    mode: LocalServerDownloadMode;
+    cacheDir: string;
+}
+
+export interface ServerChecksumOptions {
+    // Same variables as the download url template, points to a file in the `sha256sum` output format
+    urlTemplate?: string;
+    // Pinned sha256 hashes keyed by the archive file name, these take precedence over the checksum file
+    pinned: Record<string, string>;
+}
+
+// Steps reported by the install scripts through progress markers
+export type ServerInstallStep = 'platform' | 'download' | 'upload' | 'extract' | 'start' | 'listen';
+
+export interface ServerInstallProgress {
+    report(step: ServerInstallStep, percent?: number): void;
+}
 
 export interface ServerInstallOptions {
     id: string;
@@ -11,10 +41,15 @@ export interface ServerInstallOptions {
     release?: string; // vscodium specific
     extensionIds: string[];
     envVariables: string[];
+    // Environment set for the server when it's started
+    serverEnv: Record<string, string>;
     useSocketPath: boolean;
     serverApplicationName: string;
     serverDataFolderName: string;
     serverDownloadUrlTemplate: string;
+    serverChecksumUrlTemplate?: string;
+    serverChecksums: Record<string, string>;
+    localServerDownload: LocalServerDownloadMode;
 }
 
 export interface ServerInstallResult {
@@ -26,49 +61,231 @@ export interface ServerInstallResult {
     arch: string;
     platform: string;
     tmpDir: string;
-    [key: string]: any;
+    // Values of the captured remote environment variables
+    env: Record<string, string>;
+}
+
+export type ServerInstallErrorCode =
+    | 'UnsupportedPlatform'
+    | 'UnsupportedArch'
+    | 'CreateDirFailed'
+    | 'DownloadFailed'
+    | 'ChecksumMismatch'
+    | 'ExtractFailed'
+    | 'StartFailed'
+    | 'StartTimeout'
+    | 'MissingToken'
+    | 'InsecureSocketDir'
+    | 'Unknown';
+
+// Bumped whenever the result block emitted by the install scripts changes
+const INSTALL_RESULT_VERSION = 2;
+
+// Result block emitted by the install scripts as base64 encoded json
+interface ServerInstallOutput {
+    v: number;
+    exitCode: number;
+    errorCode: ServerInstallErrorCode | '';
+    errorMessage: string;
+    listeningOn: string;
+    connectionToken: string;
+    logFile: string;
+    osReleaseId: string;
+    arch: string;
+    platform: string;
+    tmpDir: string;
+    serverDir: string;
+    // Directory of the server socket, when listening on a socket
+    socketDir: string;
+    serverArch: string;
+    downloadUrl: string;
+    checksumUrl: string;
+    uploadRequired: boolean;
+    expectedSha256: string;
+    actualSha256: string;
+    // Last lines of the server log when the server didn't start
+    logTail: string;
+    env: Record<string, string>;
 }
 
 export class ServerInstallError extends Error {
+    readonly code: ServerInstallErrorCode = 'Unknown';
+    // Setting the user can change to fix the error
+    readonly setting?: string;
+
     constructor(message: string) {
         super(message);
     }
 }
 
-const DEFAULT_DOWNLOAD_URL_TEMPLATE = 'https://github.com/VSCodium/vscodium/releases/download/${version}.${release}/vscodium-reh-${os}-${arch}-${version}.${release}.tar.gz';
+export class UnsupportedPlatformError extends ServerInstallError {
+    override readonly code = 'UnsupportedPlatform';
+    override readonly setting = 'remote.SSH.remotePlatform';
 
-export async function installCodeServer(conn: SSHConnection, serverDownloadUrlTemplate: string | undefined, extensionIds: string[], envVariables: string[], platform: string | undefined, useSocketPath: boolean, logger: Log): Promise<ServerInstallResult> {
-    let shell = 'powershell';
+    constructor(readonly platform: string) {
+        super(`The remote platform ${platform || 'unknown'} is not supported by the vscode server. If the platform was detected wrongly, set it in remote.SSH.remotePlatform.`);
+    }
+}
 
-    // detect platform and shell for windows
-    if (!platform || platform === 'windows') {
-        const result = await conn.exec('uname -s');
-
-        if (result.stdout) {
-            if (result.stdout.includes('windows32')) {
-                platform = 'windows';
-            } else if (result.stdout.includes('MINGW64')) {
-                platform = 'windows';
-                shell = 'bash';
-            }
-        } else if (result.stderr) {
-            if (result.stderr.includes('FullyQualifiedErrorId : CommandNotFoundException')) {
-                platform = 'windows';
-            }
+export class UnsupportedArchError extends ServerInstallError {
+    override readonly code = 'UnsupportedArch';
 
-            if (result.stderr.includes('is not recognized as an internal or external command')) {
-                platform = 'windows';
-                shell = 'cmd';
-            }
+    constructor(readonly arch: string) {
+        super(`The remote architecture ${arch || 'unknown'} is not supported by the vscode server.`);
+    }
+}
+
+export class CreateServerDirError extends ServerInstallError {
+    override readonly code = 'CreateDirFailed';
+
+    constructor(readonly serverDir: string) {
+        super(`Couldn't create the vscode server directory ${serverDir} on the remote, check that the home directory is writable.`);
+    }
+}
+
+export class ServerDownloadError extends ServerInstallError {
+    override readonly code = 'DownloadFailed';
+    override readonly setting = 'remote.SSH.localServerDownload';
+
+    constructor(readonly url: string) {
+        super(`Couldn't download the vscode server from ${url} on the remote. Check that the remote can access it, or set remote.SSH.localServerDownload to "always" to upload it from this machine.`);
+    }
+}
+
+export class ServerChecksumError extends ServerInstallError {
+    override readonly code = 'ChecksumMismatch';
+    override readonly setting = 'remote.SSH.serverChecksums';
+
+    constructor(readonly expected: string, readonly actual: string) {
+        super(`Downloaded vscode server failed checksum verification, expected sha256 ${expected} but got ${actual || 'nothing'}. Check the download source and the configured checksums.`);
+    }
+}
+
+export class ServerExtractError extends ServerInstallError {
+    override readonly code = 'ExtractFailed';
+
+    constructor(readonly serverDir: string) {
+        super(`Couldn't extract the vscode server in ${serverDir} on the remote, check there's enough disk space and that tar is installed.`);
+    }
+}
+
+export class ServerStartError extends ServerInstallError {
+    override readonly code = 'StartFailed';
+
+    constructor(readonly logFile: string) {
+        super(`The vscode server failed to start on the remote, its log file ${logFile} was not created.`);
+    }
+}
+
+export class ServerStartTimeoutError extends ServerInstallError {
+    override readonly code = 'StartTimeout';
+
+    constructor(readonly logFile: string, readonly logTail: string) {
+        super(`The vscode server didn't report it was listening in time, check the server log ${logFile} on the remote.${logTail ? `\n\nLast lines of the server log:\n${logTail}` : ''}`);
+    }
+}
+
+export class MissingConnectionTokenError extends ServerInstallError {
+    override readonly code = 'MissingToken';
+
+    constructor() {
+        super(`The vscode server connection token file is missing on the remote, try killing the server and connecting again.`);
+    }
+}
+
+export class InsecureSocketDirError extends ServerInstallError {
+    override readonly code = 'InsecureSocketDir';
+    override readonly setting = 'remote.SSH.remoteServerListenOnSocket';
+
+    constructor(readonly socketDir: string) {
+        super(`The directory for the vscode server socket ${socketDir} on the remote is not a directory owned by the current user. Remove it or disable remote.SSH.remoteServerListenOnSocket.`);
+    }
+}
+
+function createServerInstallError(output: ServerInstallOutput): ServerInstallError {
+    switch (output.errorCode) {
+        case 'UnsupportedPlatform':
+            return new UnsupportedPlatformError(output.platform);
+        case 'UnsupportedArch':
+            return new UnsupportedArchError(output.arch);
+        case 'CreateDirFailed':
+            return new CreateServerDirError(output.serverDir);
+        case 'DownloadFailed':
+            return new ServerDownloadError(output.checksumUrl && output.errorMessage.includes(output.checksumUrl) ? output.checksumUrl : output.downloadUrl);
+        case 'ChecksumMismatch':
+            return new ServerChecksumError(output.expectedSha256, output.actualSha256);
+        case 'ExtractFailed':
+            return new ServerExtractError(output.serverDir);
+        case 'StartFailed':
+            return new ServerStartError(output.logFile);
+        case 'StartTimeout':
+            return new ServerStartTimeoutError(output.logFile, output.logTail?.trimEnd() ?? '');
+        case 'MissingToken':
+            return new MissingConnectionTokenError();
+        case 'InsecureSocketDir':
+            return new InsecureSocketDirError(output.socketDir);
+        default:
+            return new ServerInstallError(`Couldn't install vscode server on remote server${output.errorMessage ? `: ${output.errorMessage}` : ', install script returned non-zero exit status'}`);
+    }
+}
+
+// Lines of the server log included in the error when the server doesn't start
+const SERVER_LOG_TAIL_LINES = 20;
+
+/**
+ * Detects windows hosts and the shell commands run in there, `platform` is left undefined for
+ * other hosts as the install script detects them itself
+ */
+export async function detectRemoteShell(conn: SSHConnection, platform: string | undefined, logger: Log): Promise<{ platform: string | undefined; shell: string }> {
+    let shell = 'powershell';
+    const result = await conn.exec('uname -s', undefined, { ignoreExitCode: true });
+
+    if (result.stdout) {
+        if (result.stdout.includes('windows32')) {
+            platform = 'windows';
+        } else if (result.stdout.includes('MINGW64')) {
+            platform = 'windows';
+            shell = 'bash';
+        }
+    } else if (result.stderr) {
+        if (result.stderr.includes('FullyQualifiedErrorId : CommandNotFoundException')) {
+            platform = 'windows';
         }
 
-        if (platform) {
-            logger.trace(`Detected platform: ${platform}, ${shell}`);
+        if (result.stderr.includes('is not recognized as an internal or external command')) {
+            platform = 'windows';
+            shell = 'cmd';
         }
     }
 
+    if (platform) {
+        logger.trace(`Detected platform: ${platform}, ${shell}`);
+    }
+    return { platform, shell };
+}
+
+// Architectures with a Windows build of the server
+const WINDOWS_SERVER_ARCHS = ['x64', 'arm64'];
+
+const DEFAULT_DOWNLOAD_URL_TEMPLATE = 'https://github.com/VSCodium/vscodium/releases/download/${version}.${release}/vscodium-reh-${os}-${arch}-${version}.${release}.tar.gz';
+
+/**
+ * @param envVariables remote environment variables whose values are returned in the result
+ * @param serverEnv environment set for the server when it's started, `${env:NAME}` in values refers to the remote environment
+ */
+export async function installCodeServer(conn: SSHConnection, serverDownloadUrlTemplate: string | undefined, extensionIds: string[], envVariables: string[], serverEnv: Record<string, string>, platform: string | undefined, serverDataFolderName: string | undefined, useSocketPath: boolean, localServerDownload: LocalServerDownloadOptions, checksums: ServerChecksumOptions, logger: Log, progress?: ServerInstallProgress, token?: vscode.CancellationToken): Promise<ServerInstallResult> {
+    let shell = 'powershell';
+    if (!platform || platform === 'windows') {
+        progress?.report('platform');
+        ({ platform, shell } = await detectRemoteShell(conn, platform, logger));
+    }
+
     const scriptId = crypto.randomBytes(12).toString('hex');
 
+    serverEnv = getValidEnv(serverEnv, logger);
+    // The values the server environment ends up with are captured too
+    envVariables = [...new Set([...envVariables.filter(name => isValidEnvName(name, logger)), ...Object.keys(serverEnv)])];
+
     const vscodeServerConfig = await getVSCodeServerConfig();
     const installOptions: ServerInstallOptions = {
         id: scriptId,
@@ -78,19 +295,61 @@ export async function installCodeServer(conn: SSHConnection, serverDownloadUrlTe
         release: vscodeServerConfig.release,
         extensionIds,
         envVariables,
+        serverEnv,
         useSocketPath,
         serverApplicationName: vscodeServerConfig.serverApplicationName,
-        serverDataFolderName: vscodeServerConfig.serverDataFolderName,
+        serverDataFolderName: serverDataFolderName || vscodeServerConfig.serverDataFolderName,
         serverDownloadUrlTemplate: serverDownloadUrlTemplate || vscodeServerConfig.serverDownloadUrlTemplate || DEFAULT_DOWNLOAD_URL_TEMPLATE,
+        serverChecksumUrlTemplate: checksums.urlTemplate,
+        serverChecksums: getPinnedChecksums(checksums.pinned, logger),
+        localServerDownload: localServerDownload.mode,
+    };
+
+    // The scripts print their pid and progress markers while running, so they can be followed and killed on cancellation
+    const runInstallCommand = async (command: string, isDone: (stdout: string) => boolean) => {
+        const markerRegex = new RegExp(`^${scriptId}: (pid|progress) (\\w+)(?: (\\d+))?\\r?$`);
+        let remotePid: string | undefined;
+        let parsedLength = 0;
+        const parseMarkers = (stdout: string) => {
+            const end = stdout.lastIndexOf('\n') + 1;
+            for (const line of stdout.substring(parsedLength, end).split('\n')) {
+                const match = line.match(markerRegex);
+                if (match?.[1] === 'pid') {
+                    remotePid = match[2];
+                } else if (match) {
+                    progress?.report(match[2] as ServerInstallStep, match[3] ? parseInt(match[3], 10) : undefined);
+                }
+            }
+            parsedLength = Math.max(parsedLength, end);
+        };
+
+        try {
+            return await conn.execAndWaitUntil(command, (stdout: string) => {
+                parseMarkers(stdout);
+                return isDone(stdout);
+            }, undefined, { token });
+        } catch (err) {
+            if (err instanceof SSHCancelledError && remotePid) {
+                await killRemoteInstallScript(conn, platform, remotePid, logger);
+            }
+            throw err;
+        }
     };
 
     let commandOutput: { stdout: string; stderr: string };
     if (platform === 'windows') {
+        if (localServerDownload.mode === 'always') {
+            // Only the bash install script can receive an uploaded server
+            const message = 'remote.SSH.localServerDownload is not supported on Windows hosts, the server is downloaded on the remote.';
+            logger.warn(message);
+            vscode.window.showWarningMessage(message);
+        }
+
         const installServerScript = generatePowerShellInstallScript(installOptions);
 
         logger.trace('Server install command:', installServerScript);
 
-        const installDir = `$HOME\\${vscodeServerConfig.serverDataFolderName}\\install`;
+        const installDir = `$HOME\\${installOptions.serverDataFolderName}\\install`;
         const installScript = `${installDir}\\${vscodeServerConfig.commit}.ps1`;
         const endRegex = new RegExp(`${scriptId}: end`);
         // investigate if it's possible to use `-EncodedCommand` flag
@@ -128,51 +387,242 @@ export async function installCodeServer(conn: SSHConnection, serverDownloadUrlTe
             throw new ServerInstallError(`Not supported shell: ${shell}`);
         }
 
-        commandOutput = await conn.execAndWaitUntil(command, (stdout: string) => endRegex.test(stdout));
+        commandOutput = await runInstallCommand(command, (stdout: string) => endRegex.test(stdout));
     } else {
         const installServerScript = generateBashInstallScript(installOptions);
 
         logger.trace('Server install command:', installServerScript);
-        // Fish shell does not support heredoc so let's workaround it using -c option,
-        // also replace single quotes (') within the script with ('\'') as there's no quoting within single quotes, see https://unix.stackexchange.com/a/24676
-        commandOutput = await conn.exec(`bash -c '${installServerScript.replace(/'/g, `'\\''`)}'`);
+        commandOutput = await runInstallCommand(toBashCommand(installServerScript), () => false);
+
+        // The script asks for the server tarball when it can't or shouldn't download it, then it's run again to extract it
+        const firstResult = parseServerInstallOutput(commandOutput.stdout, scriptId);
+        if (firstResult?.uploadRequired) {
+            logger.trace('Server install command stdout:', decodeInstallResultForLog(commandOutput.stdout, scriptId));
+
+            await uploadServerTarball(conn, installOptions, firstResult, localServerDownload.cacheDir, logger, progress, token);
+            commandOutput = await runInstallCommand(toBashCommand(installServerScript), () => false);
+        }
     }
 
     if (commandOutput.stderr) {
         logger.trace('Server install command stderr:', commandOutput.stderr);
     }
-    logger.trace('Server install command stdout:', commandOutput.stdout);
+    logger.trace('Server install command stdout:', decodeInstallResultForLog(commandOutput.stdout, scriptId));
 
-    const resultMap = parseServerInstallOutput(commandOutput.stdout, scriptId);
-    if (!resultMap) {
+    const output = parseServerInstallOutput(commandOutput.stdout, scriptId);
+    if (!output) {
         throw new ServerInstallError(`Failed parsing install script output`);
     }
 
-    const exitCode = parseInt(resultMap.exitCode, 10);
-    if (exitCode !== 0) {
-        throw new ServerInstallError(`Couldn't install vscode server on remote server, install script returned non-zero exit status`);
+    if (output.exitCode !== 0) {
+        throw createServerInstallError(output);
     }
 
-    const listeningOn = resultMap.listeningOn.match(/^\d+$/)
-        ? parseInt(resultMap.listeningOn, 10)
-        : resultMap.listeningOn;
+    const listeningOn = output.listeningOn.match(/^\d+$/)
+        ? parseInt(output.listeningOn, 10)
+        : output.listeningOn;
 
-    const remoteEnvVars = Object.fromEntries(Object.entries(resultMap).filter(([key,]) => envVariables.includes(key)));
+    const remoteEnvVars = Object.fromEntries(Object.entries(output.env).filter(([key,]) => envVariables.includes(key)));
 
     return {
-        exitCode,
+        exitCode: output.exitCode,
         listeningOn,
-        connectionToken: resultMap.connectionToken,
-        logFile: resultMap.logFile,
-        osReleaseId: resultMap.osReleaseId,
-        arch: resultMap.arch,
-        platform: resultMap.platform,
-        tmpDir: resultMap.tmpDir,
-        ...remoteEnvVars
+        connectionToken: output.connectionToken,
+        logFile: output.logFile,
+        osReleaseId: output.osReleaseId,
+        arch: output.arch,
+        platform: output.platform,
+        tmpDir: output.tmpDir,
+        env: remoteEnvVars
     };
 }
 
-function parseServerInstallOutput(str: string, scriptId: string): { [k: string]: string } | undefined {
+async function killRemoteInstallScript(conn: SSHConnection, platform: string | undefined, pid: string, logger: Log) {
+    logger.info(`Killing server install script with pid ${pid} on the remote`);
+    const command = platform === 'windows'
+        ? `powershell -Command "Stop-Process -Id ${pid} -Force"`
+        : `pkill -P ${pid}; kill ${pid}`;
+    try {
+        await conn.exec(command, undefined, { ignoreExitCode: true });
+    } catch (err) {
+        logger.error(`Failed to kill server install script: ${err}`);
+    }
+}
+
+function getPinnedChecksums(pinned: Record<string, string>, logger: Log) {
+    const checksums: Record<string, string> = {};
+    for (const [fileName, hash] of Object.entries(pinned)) {
+        if (/^[0-9a-f]{64}$/i.test(hash)) {
+            checksums[fileName] = hash.toLowerCase();
+        } else {
+            logger.error(`Ignoring invalid sha256 hash for ${fileName}: ${hash}`);
+        }
+    }
+    return checksums;
+}
+
+// Names are interpolated in the install scripts
+function isValidEnvName(name: string, logger: Log) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        return true;
+    }
+    logger.error(`Ignoring invalid environment variable name: ${name}`);
+    return false;
+}
+
+function getValidEnv(env: Record<string, string>, logger: Log) {
+    return Object.fromEntries(Object.entries(env).filter(([name, value]) => isValidEnvName(name, logger) && typeof value === 'string'));
+}
+
+// `${env:NAME}` references in values, splitting on it puts the referenced names at odd indexes
+const ENV_REFERENCE_REGEX = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/;
+
+function getBashEnvExports(serverEnv: Record<string, string>) {
+    return Object.entries(serverEnv).map(([name, value]) => {
+        const quoted = value.split(ENV_REFERENCE_REGEX).map((part, i) => i % 2 ? `\${${part}}` : part.replace(/[\\"$`]/g, '\\$&')).join('');
+        return `export ${name}="${quoted}"`;
+    }).join('\n');
+}
+
+function getPowerShellEnvAssignments(serverEnv: Record<string, string>) {
+    return Object.entries(serverEnv).map(([name, value]) => {
+        const quoted = value.split(ENV_REFERENCE_REGEX).map((part, i) => i % 2 ? `\${env:${part}}` : part.replace(/[`"$]/g, '`$&')).join('');
+        return `$env:${name}="${quoted}"`;
+    }).join('\n');
+}
+
+function toPowerShellHashtable(values: Record<string, string>) {
+    return `@{\n${Object.entries(values).map(([key, value]) => `    ${key}="${value}"`).join('\n')}\n}`;
+}
+
+function getArchiveFileName(downloadUrl: string) {
+    return downloadUrl.replace(/[?#].*$/, '').split('/').pop() || '';
+}
+
+function resolveUrlTemplate(template: string, { quality, version, commit, release }: ServerInstallOptions, os: string, arch: string) {
+    return template
+        .replace(/\$\{quality\}/g, quality)
+        .replace(/\$\{version\}/g, version)
+        .replace(/\$\{commit\}/g, commit)
+        .replace(/\$\{os\}/g, os)
+        .replace(/\$\{arch\}/g, arch)
+        .replace(/\$\{release\}/g, release ?? '');
+}
+
+// Resolves the template at runtime in the bash script, once the platform and arch are known
+function toBashUrlTemplate(template: string) {
+    return `$(echo "${template.replace(/\$\{/g, '\\${')}" | sed "s/\\\${quality}/$DISTRO_QUALITY/g" | sed "s/\\\${version}/$DISTRO_VERSION/g" | sed "s/\\\${commit}/$DISTRO_COMMIT/g" | sed "s/\\\${os}/$PLATFORM/g" | sed "s/\\\${arch}/$SERVER_ARCH/g" | sed "s/\\\${release}/$DISTRO_VSCODIUM_RELEASE/g")`;
+}
+
+export function toBashCommand(script: string) {
+    // Fish shell does not support heredoc so let's workaround it using -c option,
+    // also replace single quotes (') within the script with ('\'') as there's no quoting within single quotes, see https://unix.stackexchange.com/a/24676
+    return `bash -c '${script.replace(/'/g, `'\\''`)}'`;
+}
+
+export function toPowerShellCommand(script: string) {
+    // The encoded command needs no quoting so it works the same from cmd, powershell and bash
+    return `powershell -NoProfile -NonInteractive -ExecutionPolicy Bypass -EncodedCommand ${Buffer.from(script, 'utf16le').toString('base64')}`;
+}
+
+/**
+ * Parses the `<id>: <type> <args...>` lines printed by scripts, other output is ignored
+ */
+export function parseScriptMarkers(stdout: string, id: string): { type: string; args: string[] }[] {
+    const markerRegex = new RegExp(`^${id}: (\\w+) ?(.*?)\\r?$`);
+    return stdout.split('\n').map(line => line.match(markerRegex)).filter((match): match is RegExpMatchArray => !!match).map(match => ({ type: match[1], args: match[2].split(' ') }));
+}
+
+function getServerUploadPath({ serverDataFolderName, commit }: ServerInstallOptions) {
+    return `$HOME/${serverDataFolderName}/bin/${commit}/vscode-server-upload.tar.gz`;
+}
+
+async function uploadServerTarball(conn: SSHConnection, installOptions: ServerInstallOptions, output: ServerInstallOutput, cacheDir: string, logger: Log, progress?: ServerInstallProgress, token?: vscode.CancellationToken) {
+    const { platform, serverArch, downloadUrl } = output;
+    if (!platform || !serverArch || !downloadUrl) {
+        throw new ServerInstallError(`Couldn't determine which server to upload to the remote`);
+    }
+
+    let tarballPath: string;
+    try {
+        tarballPath = await getLocalServerTarball(downloadUrl, cacheDir, getServerTarballName(installOptions.commit, platform, serverArch), logger, percent => progress?.report('download', percent));
+    } catch (err) {
+        throw new ServerInstallError(`Couldn't get the vscode server on the local machine: ${err instanceof Error ? err.message : err}`);
+    }
+
+    const sha256 = await computeFileSha256(tarballPath);
+    const expectedSha256 = await getExpectedChecksum(installOptions, getArchiveFileName(downloadUrl), output.checksumUrl);
+    if (expectedSha256 && expectedSha256 !== sha256) {
+        // Don't keep a bad tarball in the cache
+        await fs.promises.rm(tarballPath, { force: true }).catch(() => { });
+        throw new ServerChecksumError(expectedSha256, sha256);
+    }
+
+    const uploadPath = getServerUploadPath(installOptions);
+    const partialPath = `${uploadPath}.part`;
+
+    logger.info(`Uploading server tarball ${tarballPath} (sha256 ${sha256})`);
+    const { size } = await fs.promises.stat(tarballPath);
+    const input = fs.createReadStream(tarballPath);
+    let uploaded = 0;
+    let lastPercent = -1;
+    input.on('data', (chunk: Buffer) => {
+        uploaded += chunk.length;
+        const percent = size ? Math.floor(uploaded * 100 / size) : 100;
+        if (percent !== lastPercent) {
+            lastPercent = percent;
+            progress?.report('upload', percent);
+        }
+    });
+
+    try {
+        await conn.execWithInput(toBashCommand(`mkdir -p "$(dirname "${partialPath}")" && cat > "${partialPath}"`), input, { token });
+    } catch (err) {
+        if (err instanceof SSHCancelledError) {
+            throw err;
+        }
+        throw new ServerInstallError(`Failed uploading the vscode server to the remote: ${err instanceof Error ? err.message : err}`);
+    }
+
+    // Only move the tarball where the install script looks for it once it's complete
+    const { stdout } = await conn.exec(toBashCommand(`(sha256sum "${partialPath}" 2>/dev/null || shasum -a 256 "${partialPath}") | cut -d " " -f 1`), undefined, { ignoreExitCode: true });
+    const remoteSha256 = stdout.trim();
+    if (remoteSha256 !== sha256) {
+        await conn.exec(toBashCommand(`rm -f "${partialPath}"`), undefined, { ignoreExitCode: true });
+        throw new ServerInstallError(`Uploaded vscode server is corrupted, expected sha256 ${sha256} but got ${remoteSha256 || 'nothing'}`);
+    }
+    await conn.exec(toBashCommand(`mv -f "${partialPath}" "${uploadPath}"`));
+}
+
+async function getExpectedChecksum({ serverChecksums }: ServerInstallOptions, archiveFileName: string, checksumUrl: string | undefined): Promise<string | undefined> {
+    if (serverChecksums[archiveFileName]) {
+        return serverChecksums[archiveFileName];
+    }
+    if (!checksumUrl) {
+        return undefined;
+    }
+
+    let expected: string | undefined;
+    try {
+        expected = parseChecksumFile(await fetchText(checksumUrl));
+    } catch (err) {
+        throw new ServerInstallError(`Couldn't download the vscode server checksum from ${checksumUrl}: ${err instanceof Error ? err.message : err}`);
+    }
+    if (!expected) {
+        throw new ServerInstallError(`Invalid vscode server checksum file ${checksumUrl}`);
+    }
+    return expected;
+}
+
+/**
+ * Replaces the encoded install result in the script output with its JSON, so it's readable
+ * in the log and its connection token is redacted
+ */
+function decodeInstallResultForLog(stdout: string, scriptId: string) {
+    return stdout.replace(new RegExp(`(${scriptId}: start\\s*)([A-Za-z0-9+/=]+)`, 'g'), (_, start: string, encoded: string) => start + Buffer.from(encoded, 'base64').toString('utf8'));
+}
+
+function parseServerInstallOutput(str: string, scriptId: string): ServerInstallOutput | undefined {
     const startResultStr = `${scriptId}: start`;
     const endResultStr = `${scriptId}: end`;
 
@@ -186,25 +636,32 @@ function parseServerInstallOutput(str: string, scriptId: string): { [k: string]:
         return undefined;
     }
 
-    const installResult = str.substring(startResultIdx + startResultStr.length, endResultIdx);
+    const installResult = str.substring(startResultIdx + startResultStr.length, endResultIdx).trim();
 
-    const resultMap: { [k: string]: string } = {};
-    const resultArr = installResult.split(/\r?\n/);
-    for (const line of resultArr) {
-        const [key, value] = line.split('==');
-        resultMap[key] = value;
+    let output: ServerInstallOutput;
+    try {
+        output = JSON.parse(Buffer.from(installResult, 'base64').toString('utf8'));
+    } catch {
+        return undefined;
     }
 
-    return resultMap;
+    if (output.v !== INSTALL_RESULT_VERSION) {
+        throw new ServerInstallError(`Unsupported install script result version ${output.v}`);
+    }
+
+    return output;
 }
 
-function generateBashInstallScript({ id, quality, version, commit, release, extensionIds, envVariables, useSocketPath, serverApplicationName, serverDataFolderName, serverDownloadUrlTemplate }: ServerInstallOptions) {
+function generateBashInstallScript({ id, quality, version, commit, release, extensionIds, envVariables, serverEnv, useSocketPath, serverApplicationName, serverDataFolderName, serverDownloadUrlTemplate, serverChecksumUrlTemplate, serverChecksums, localServerDownload }: ServerInstallOptions) {
     const extensions = extensionIds.map(id => '--install-extension ' + id).join(' ');
     return `
 # Server installation script
 
 TMP_DIR="\${XDG_RUNTIME_DIR:-"/tmp"}"
 
+# Environment for the server
+${getBashEnvExports(serverEnv)}
+
 DISTRO_VERSION="${version}"
 DISTRO_COMMIT="${commit}"
 DISTRO_QUALITY="${quality}"
@@ -212,38 +669,95 @@ DISTRO_VSCODIUM_RELEASE="${release ?? ''}"
 
 SERVER_APP_NAME="${serverApplicationName}"
 SERVER_INITIAL_EXTENSIONS="${extensions}"
-SERVER_LISTEN_FLAG="${useSocketPath ? `--socket-path="$TMP_DIR/vscode-server-sock-${crypto.randomUUID()}"` : '--port=0'}"
+SERVER_SOCKET_DIR="${useSocketPath ? '$TMP_DIR/vscode-server-sockets-$(id -u)' : ''}"
+SERVER_LISTEN_FLAG="${useSocketPath ? `--socket-path="$SERVER_SOCKET_DIR/vscode-server-sock-${crypto.randomUUID()}"` : '--port=0'}"
 SERVER_DATA_DIR="$HOME/${serverDataFolderName}"
 SERVER_DIR="$SERVER_DATA_DIR/bin/$DISTRO_COMMIT"
 SERVER_SCRIPT="$SERVER_DIR/bin/$SERVER_APP_NAME"
 SERVER_LOGFILE="$SERVER_DATA_DIR/.$DISTRO_COMMIT.log"
 SERVER_PIDFILE="$SERVER_DATA_DIR/.$DISTRO_COMMIT.pid"
 SERVER_TOKENFILE="$SERVER_DATA_DIR/.$DISTRO_COMMIT.token"
+SERVER_UPLOAD_FILE="$SERVER_DIR/vscode-server-upload.tar.gz"
+SERVER_LOCAL_DOWNLOAD="${localServerDownload}"
 SERVER_ARCH=
 SERVER_CONNECTION_TOKEN=
 SERVER_DOWNLOAD_URL=
+SERVER_CHECKSUM_URL=
+SERVER_EXPECTED_SHA256=
+SERVER_ACTUAL_SHA256=
+UPLOAD_REQUIRED=false
+DOWNLOAD_PROGRESS_REGEX='(^|[ #])([0-9]{1,3})([.,][0-9])?%( |$)'
+ERROR_CODE=
+ERROR_MESSAGE=
 
 LISTENING_ON=
 OS_RELEASE_ID=
 ARCH=
 PLATFORM=
 
-# Mimic output from logs of remote-ssh extension
+json_string() {
+    local value="$1"
+    value="\${value//\\\\/\\\\\\\\}"
+    value="\${value//\\"/\\\\\\"}"
+    value="\${value//$'\\t'/\\\\t}"
+    value="\${value//$'\\r'/\\\\r}"
+    value="\${value//$'\\n'/\\\\n}"
+    # Other control characters are invalid in json strings too
+    if [[ "$value" == *[[:cntrl:]]* ]]; then
+        local i octal char escaped
+        for ((i = 1; i < 32; i++)); do
+            printf -v octal '%03o' "$i"
+            printf -v char "\\\\$octal"
+            printf -v escaped '\\\\u%04x' "$i"
+            value="\${value//"$char"/$escaped}"
+        done
+    fi
+    printf '"%s"' "$value"
+}
+
 print_install_results_and_exit() {
     echo "${id}: start"
-    echo "exitCode==$1=="
-    echo "listeningOn==$LISTENING_ON=="
-    echo "connectionToken==$SERVER_CONNECTION_TOKEN=="
-    echo "logFile==$SERVER_LOGFILE=="
-    echo "osReleaseId==$OS_RELEASE_ID=="
-    echo "arch==$ARCH=="
-    echo "platform==$PLATFORM=="
-    echo "tmpDir==$TMP_DIR=="
-    ${envVariables.map(envVar => `echo "${envVar}==$${envVar}=="`).join('\n')}
+    printf '{"v":%d,"exitCode":%d,"errorCode":%s,"errorMessage":%s,"listeningOn":%s,"connectionToken":%s,"logFile":%s,"osReleaseId":%s,"arch":%s,"platform":%s,"tmpDir":%s,"serverDir":%s,"socketDir":%s,"serverArch":%s,"downloadUrl":%s,"checksumUrl":%s,"uploadRequired":%s,"expectedSha256":%s,"actualSha256":%s,"logTail":%s,"env":{${envVariables.map(envVar => `"${envVar}":%s`).join(',')}}}' \\
+        ${INSTALL_RESULT_VERSION} "$1" "$(json_string "$ERROR_CODE")" "$(json_string "$ERROR_MESSAGE")" "$(json_string "$LISTENING_ON")" \\
+        "$(json_string "$SERVER_CONNECTION_TOKEN")" "$(json_string "$SERVER_LOGFILE")" "$(json_string "$OS_RELEASE_ID")" "$(json_string "$ARCH")" \\
+        "$(json_string "$PLATFORM")" "$(json_string "$TMP_DIR")" "$(json_string "$SERVER_DIR")" "$(json_string "$SERVER_SOCKET_DIR")" "$(json_string "$SERVER_ARCH")" \\
+        "$(json_string "$SERVER_DOWNLOAD_URL")" "$(json_string "$SERVER_CHECKSUM_URL")" "$UPLOAD_REQUIRED" \\
+        "$(json_string "$SERVER_EXPECTED_SHA256")" "$(json_string "$SERVER_ACTUAL_SHA256")" "$(json_string "$SERVER_LOG_TAIL")" ${envVariables.map(envVar => `"$(json_string "$${envVar}")"`).join(' ')} | base64 | tr -d '\\r\\n'
+    echo
     echo "${id}: end"
     exit 0
 }
 
+print_error_and_exit() {
+    ERROR_CODE="$1"
+    ERROR_MESSAGE="$2"
+    echo "Error $ERROR_MESSAGE"
+    print_install_results_and_exit 1
+}
+
+print_progress() {
+    echo "${id}: progress $*"
+}
+
+# Turns the wget/curl progress output into download progress markers, other lines are printed as is
+print_download_progress() {
+    local last_percent=
+    local line
+    while IFS= read -r line; do
+        if [[ $line =~ $DOWNLOAD_PROGRESS_REGEX ]]; then
+            if [[ \${BASH_REMATCH[2]} != "$last_percent" ]]; then
+                last_percent="\${BASH_REMATCH[2]}"
+                print_progress download $last_percent
+            fi
+        elif [[ -n $line ]]; then
+            echo "$line"
+        fi
+    done
+}
+
+echo "${id}: pid $$"
+print_progress platform
+
 # Check if platform is supported
 KERNEL="$(uname -s)"
 case $KERNEL in
@@ -260,8 +774,7 @@ case $KERNEL in
         PLATFORM="dragonfly"
         ;;
     *)
-        echo "Error platform not supported: $KERNEL"
-        print_install_results_and_exit 1
+        print_error_and_exit UnsupportedPlatform "platform not supported: $KERNEL"
         ;;
 esac
 
@@ -290,8 +803,7 @@ case $ARCH in
         SERVER_ARCH="s390x"
         ;;
     *)
-        echo "Error architecture not supported: $ARCH"
-        print_install_results_and_exit 1
+        print_error_and_exit UnsupportedArch "architecture not supported: $ARCH"
         ;;
 esac
 
@@ -308,8 +820,7 @@ fi
 if [[ ! -d $SERVER_DIR ]]; then
     mkdir -p $SERVER_DIR
     if (( $? > 0 )); then
-        echo "Error creating server install directory"
-        print_install_results_and_exit 1
+        print_error_and_exit CreateDirFailed "creating server install directory $SERVER_DIR"
     fi
 fi
 
@@ -318,7 +829,15 @@ if [[ $OS_RELEASE_ID = alpine ]]; then
     PLATFORM=$OS_RELEASE_ID
 fi
 
-SERVER_DOWNLOAD_URL="$(echo "${serverDownloadUrlTemplate.replace(/\$\{/g, '\\${')}" | sed "s/\\\${quality}/$DISTRO_QUALITY/g" | sed "s/\\\${version}/$DISTRO_VERSION/g" | sed "s/\\\${commit}/$DISTRO_COMMIT/g" | sed "s/\\\${os}/$PLATFORM/g" | sed "s/\\\${arch}/$SERVER_ARCH/g" | sed "s/\\\${release}/$DISTRO_VSCODIUM_RELEASE/g")"
+SERVER_DOWNLOAD_URL="${toBashUrlTemplate(serverDownloadUrlTemplate)}"
+SERVER_CHECKSUM_URL="${serverChecksumUrlTemplate ? toBashUrlTemplate(serverChecksumUrlTemplate) : ''}"
+
+# Pinned checksums take precedence over the checksum file
+case "\${SERVER_DOWNLOAD_URL##*/}" in
+${Object.entries(serverChecksums).map(([fileName, hash]) => `    '${fileName.replace(/'/g, '')}')\n        SERVER_EXPECTED_SHA256="${hash}"\n        ;;`).join('\n')}
+    *)
+        ;;
+esac
 
 # Check if server script is already installed
 if [[ ! -f $SERVER_SCRIPT ]]; then
@@ -326,36 +845,71 @@ if [[ ! -f $SERVER_SCRIPT ]]; then
         darwin | linux | alpine )
             ;;
         *)
-            echo "Error '$PLATFORM' needs manual installation of remote extension host"
-            print_install_results_and_exit 1
+            print_error_and_exit UnsupportedPlatform "'$PLATFORM' needs manual installation of remote extension host"
             ;;
     esac
 
     pushd $SERVER_DIR > /dev/null
 
-    if [[ ! -z $(which wget) ]]; then
-        wget --tries=3 --timeout=10 --continue --no-verbose -O vscode-server.tar.gz $SERVER_DOWNLOAD_URL
-    elif [[ ! -z $(which curl) ]]; then
-        curl --retry 3 --connect-timeout 10 --location --show-error --silent --output vscode-server.tar.gz $SERVER_DOWNLOAD_URL
-    else
-        echo "Error no tool to download server binary"
+    # The client uploads the server tarball when the remote can't download it
+    if [[ -f $SERVER_UPLOAD_FILE ]]; then
+        echo "Using server uploaded from the client"
+        mv -f $SERVER_UPLOAD_FILE vscode-server.tar.gz
+    elif [[ $SERVER_LOCAL_DOWNLOAD = always ]]; then
+        UPLOAD_REQUIRED=true
         print_install_results_and_exit 1
-    fi
+    else
+        print_progress download 0
+        if [[ ! -z $(which wget) ]]; then
+            wget --tries=3 --timeout=10 --continue --progress=dot:mega -O vscode-server.tar.gz $SERVER_DOWNLOAD_URL 2>&1 | print_download_progress
+            DOWNLOAD_STATUS=\${PIPESTATUS[0]}
+        elif [[ ! -z $(which curl) ]]; then
+            curl --retry 3 --connect-timeout 10 --location --show-error --progress-bar --output vscode-server.tar.gz $SERVER_DOWNLOAD_URL 2>&1 | tr '\\r' '\\n' | print_download_progress
+            DOWNLOAD_STATUS=\${PIPESTATUS[0]}
+        else
+            echo "Error no tool to download server binary"
+            DOWNLOAD_STATUS=1
+        fi
 
-    if (( $? > 0 )); then
-        echo "Error downloading server from $SERVER_DOWNLOAD_URL"
-        print_install_results_and_exit 1
+        if (( DOWNLOAD_STATUS > 0 )); then
+            rm -f vscode-server.tar.gz
+            if [[ $SERVER_LOCAL_DOWNLOAD = auto ]]; then
+                UPLOAD_REQUIRED=true
+            fi
+            print_error_and_exit DownloadFailed "downloading server from $SERVER_DOWNLOAD_URL"
+        fi
+
+        # Verify the downloaded archive, uploaded ones are already verified by the client
+        if [[ -z $SERVER_EXPECTED_SHA256 && -n $SERVER_CHECKSUM_URL ]]; then
+            if [[ ! -z $(which wget) ]]; then
+                SERVER_EXPECTED_SHA256="$(wget --tries=3 --timeout=10 --quiet -O - $SERVER_CHECKSUM_URL | cut -d " " -f 1 | tr "[:upper:]" "[:lower:]")"
+            else
+                SERVER_EXPECTED_SHA256="$(curl --retry 3 --connect-timeout 10 --location --silent $SERVER_CHECKSUM_URL | cut -d " " -f 1 | tr "[:upper:]" "[:lower:]")"
+            fi
+
+            if [[ -z $SERVER_EXPECTED_SHA256 ]]; then
+                rm -f vscode-server.tar.gz
+                print_error_and_exit DownloadFailed "downloading server checksum from $SERVER_CHECKSUM_URL"
+            fi
+        fi
+
+        if [[ -n $SERVER_EXPECTED_SHA256 ]]; then
+            SERVER_ACTUAL_SHA256="$( (sha256sum vscode-server.tar.gz 2>/dev/null || shasum -a 256 vscode-server.tar.gz) | cut -d " " -f 1)"
+            if [[ $SERVER_ACTUAL_SHA256 != "$SERVER_EXPECTED_SHA256" ]]; then
+                rm -f vscode-server.tar.gz
+                print_error_and_exit ChecksumMismatch "server checksum mismatch, expected $SERVER_EXPECTED_SHA256 but got $SERVER_ACTUAL_SHA256"
+            fi
+        fi
     fi
 
+    print_progress extract
     tar -xf vscode-server.tar.gz --strip-components 1
     if (( $? > 0 )); then
-        echo "Error while extracting server contents"
-        print_install_results_and_exit 1
+        print_error_and_exit ExtractFailed "while extracting server contents"
     fi
 
     if [[ ! -f $SERVER_SCRIPT ]]; then
-        echo "Error server contents are corrupted"
-        print_install_results_and_exit 1
+        print_error_and_exit ExtractFailed "server contents are corrupted"
     fi
 
     rm -f vscode-server.tar.gz
@@ -374,6 +928,8 @@ else
 fi
 
 if [[ -z $SERVER_RUNNING_PROCESS ]]; then
+    print_progress start
+
     if [[ -f $SERVER_LOGFILE ]]; then
         rm $SERVER_LOGFILE
     fi
@@ -381,6 +937,15 @@ if [[ -z $SERVER_RUNNING_PROCESS ]]; then
         rm $SERVER_TOKENFILE
     fi
 
+    # Only the current user may connect to the socket, a directory another user created in a shared /tmp is refused
+    if [[ -n $SERVER_SOCKET_DIR ]]; then
+        mkdir -p -m 700 "$SERVER_SOCKET_DIR" 2>/dev/null
+        if [[ -L $SERVER_SOCKET_DIR || ! -d $SERVER_SOCKET_DIR || ! -O $SERVER_SOCKET_DIR ]]; then
+            print_error_and_exit InsecureSocketDir "socket directory $SERVER_SOCKET_DIR is not owned by the current user"
+        fi
+        chmod 700 "$SERVER_SOCKET_DIR"
+    fi
+
     touch $SERVER_TOKENFILE
     chmod 600 $SERVER_TOKENFILE
     SERVER_CONNECTION_TOKEN="${crypto.randomUUID()}"
@@ -395,10 +960,10 @@ fi
 if [[ -f $SERVER_TOKENFILE ]]; then
     SERVER_CONNECTION_TOKEN="$(cat $SERVER_TOKENFILE)"
 else
-    echo "Error server token file not found $SERVER_TOKENFILE"
-    print_install_results_and_exit 1
+    print_error_and_exit MissingToken "server token file not found $SERVER_TOKENFILE"
 fi
 
+print_progress listen
 if [[ -f $SERVER_LOGFILE ]]; then
     for i in {1..5}; do
         LISTENING_ON="$(cat $SERVER_LOGFILE | grep -E 'Extension host agent listening on .+' | sed 's/Extension host agent listening on //')"
@@ -409,12 +974,11 @@ if [[ -f $SERVER_LOGFILE ]]; then
     done
 
     if [[ -z $LISTENING_ON ]]; then
-        echo "Error server did not start successfully"
-        print_install_results_and_exit 1
+        SERVER_LOG_TAIL="$(tail -n ${SERVER_LOG_TAIL_LINES} $SERVER_LOGFILE)"
+        print_error_and_exit StartTimeout "server did not start successfully"
     fi
 else
-    echo "Error server log file not found $SERVER_LOGFILE"
-    print_install_results_and_exit 1
+    print_error_and_exit StartFailed "server log file not found $SERVER_LOGFILE"
 fi
 
 # Finish server setup
@@ -422,15 +986,13 @@ print_install_results_and_exit 0
 `;
 }
 
-function generatePowerShellInstallScript({ id, quality, version, commit, release, extensionIds, envVariables, useSocketPath, serverApplicationName, serverDataFolderName, serverDownloadUrlTemplate }: ServerInstallOptions) {
+function generatePowerShellInstallScript(installOptions: ServerInstallOptions) {
+    const { id, quality, version, commit, release, extensionIds, envVariables, serverEnv, useSocketPath, serverApplicationName, serverDataFolderName, serverDownloadUrlTemplate, serverChecksumUrlTemplate, serverChecksums } = installOptions;
     const extensions = extensionIds.map(id => '--install-extension ' + id).join(' ');
-    const downloadUrl = serverDownloadUrlTemplate
-        .replace(/\$\{quality\}/g, quality)
-        .replace(/\$\{version\}/g, version)
-        .replace(/\$\{commit\}/g, commit)
-        .replace(/\$\{os\}/g, 'win32')
-        .replace(/\$\{arch\}/g, 'x64')
-        .replace(/\$\{release\}/g, release ?? '');
+    // Resolved for every Windows build, the script picks the one matching the remote architecture
+    const downloadUrls = Object.fromEntries(WINDOWS_SERVER_ARCHS.map(arch => [arch, resolveUrlTemplate(serverDownloadUrlTemplate, installOptions, 'win32', arch)]));
+    const checksumUrls = Object.fromEntries(WINDOWS_SERVER_ARCHS.map(arch => [arch, serverChecksumUrlTemplate ? resolveUrlTemplate(serverChecksumUrlTemplate, installOptions, 'win32', arch) : '']));
+    const pinnedSha256s = Object.fromEntries(WINDOWS_SERVER_ARCHS.map(arch => [arch, serverChecksums[getArchiveFileName(downloadUrls[arch])] ?? '']));
 
     return `
 # Server installation script
@@ -438,6 +1000,9 @@ function generatePowerShellInstallScript({ id, quality, version, commit, release
 $TMP_DIR="$env:TEMP\\$([System.IO.Path]::GetRandomFileName())"
 $ProgressPreference = "SilentlyContinue"
 
+# Environment for the server
+${getPowerShellEnvAssignments(serverEnv)}
+
 $DISTRO_VERSION="${version}"
 $DISTRO_COMMIT="${commit}"
 $DISTRO_QUALITY="${quality}"
@@ -445,16 +1010,25 @@ $DISTRO_VSCODIUM_RELEASE="${release ?? ''}"
 
 $SERVER_APP_NAME="${serverApplicationName}"
 $SERVER_INITIAL_EXTENSIONS="${extensions}"
-$SERVER_LISTEN_FLAG="${useSocketPath ? `--socket-path="$TMP_DIR/vscode-server-sock-${crypto.randomUUID()}"` : '--port=0'}"
+# Node listens on a named pipe on Windows, Win32-OpenSSH forwards unix sockets to named pipes
+$SERVER_LISTEN_FLAG="${useSocketPath ? `--socket-path=\\\\.\\pipe\\vscode-server-sock-${crypto.randomUUID()}` : '--port=0'}"
 $SERVER_DATA_DIR="$(Resolve-Path ~)\\${serverDataFolderName}"
 $SERVER_DIR="$SERVER_DATA_DIR\\bin\\$DISTRO_COMMIT"
 $SERVER_SCRIPT="$SERVER_DIR\\bin\\$SERVER_APP_NAME.cmd"
 $SERVER_LOGFILE="$SERVER_DATA_DIR\\.$DISTRO_COMMIT.log"
 $SERVER_PIDFILE="$SERVER_DATA_DIR\\.$DISTRO_COMMIT.pid"
 $SERVER_TOKENFILE="$SERVER_DATA_DIR\\.$DISTRO_COMMIT.token"
+$SERVER_DOWNLOAD_URLS=${toPowerShellHashtable(downloadUrls)}
+$SERVER_CHECKSUM_URLS=${toPowerShellHashtable(checksumUrls)}
+$SERVER_PINNED_SHA256S=${toPowerShellHashtable(pinnedSha256s)}
 $SERVER_ARCH=
 $SERVER_CONNECTION_TOKEN=
 $SERVER_DOWNLOAD_URL=
+$SERVER_CHECKSUM_URL=
+$SERVER_EXPECTED_SHA256=
+$SERVER_ACTUAL_SHA256=
+$ERROR_CODE=
+$ERROR_MESSAGE=
 
 $LISTENING_ON=
 $OS_RELEASE_ID=
@@ -462,43 +1036,86 @@ $ARCH=
 $PLATFORM="win32"
 
 function printInstallResults($code) {
+    $RESULT = [ordered]@{
+        v = ${INSTALL_RESULT_VERSION}
+        exitCode = $code
+        errorCode = "$ERROR_CODE"
+        errorMessage = "$ERROR_MESSAGE"
+        listeningOn = "$LISTENING_ON"
+        connectionToken = "$SERVER_CONNECTION_TOKEN"
+        logFile = "$SERVER_LOGFILE"
+        osReleaseId = "$OS_RELEASE_ID"
+        arch = "$ARCH"
+        platform = "$PLATFORM"
+        tmpDir = "$TMP_DIR"
+        serverDir = "$SERVER_DIR"
+        socketDir = ""
+        serverArch = "$SERVER_ARCH"
+        downloadUrl = "$SERVER_DOWNLOAD_URL"
+        checksumUrl = "$SERVER_CHECKSUM_URL"
+        uploadRequired = $False
+        expectedSha256 = "$SERVER_EXPECTED_SHA256"
+        actualSha256 = "$SERVER_ACTUAL_SHA256"
+        logTail = "$SERVER_LOG_TAIL"
+        env = [ordered]@{
+            ${envVariables.map(envVar => `${envVar} = "$env:${envVar}"`).join('\n')}
+        }
+    }
+
     "${id}: start"
-    "exitCode==$code=="
-    "listeningOn==$LISTENING_ON=="
-    "connectionToken==$SERVER_CONNECTION_TOKEN=="
-    "logFile==$SERVER_LOGFILE=="
-    "osReleaseId==$OS_RELEASE_ID=="
-    "arch==$ARCH=="
-    "platform==$PLATFORM=="
-    "tmpDir==$TMP_DIR=="
-    ${envVariables.map(envVar => `"${envVar}==$${envVar}=="`).join('\n')}
+    [Convert]::ToBase64String([System.Text.Encoding]::UTF8.GetBytes(($RESULT | ConvertTo-Json -Compress)))
     "${id}: end"
 }
 
-# Check machine architecture
-$ARCH=$env:PROCESSOR_ARCHITECTURE
-# Use x64 version for ARM64, as it's not yet available.
-if(($ARCH -eq "AMD64") -or ($ARCH -eq "IA64") -or ($ARCH -eq "ARM64")) {
-    $SERVER_ARCH="x64"
+function printProgress($step) {
+    "${id}: progress $step"
 }
-else {
-    "Error architecture not supported: $ARCH"
+
+function printErrorAndExit($code, $message) {
+    $script:ERROR_CODE = $code
+    $script:ERROR_MESSAGE = $message
+    "Error $message"
     printInstallResults 1
     exit 0
 }
 
+function selectServerArch($arch) {
+    $script:SERVER_ARCH = $arch
+    $script:SERVER_DOWNLOAD_URL = $SERVER_DOWNLOAD_URLS[$arch]
+    $script:SERVER_CHECKSUM_URL = $SERVER_CHECKSUM_URLS[$arch]
+    $script:SERVER_EXPECTED_SHA256 = $SERVER_PINNED_SHA256S[$arch]
+}
+
+"${id}: pid $PID"
+printProgress "platform"
+
+# Check machine architecture, a 32-bit or emulated shell reports its own architecture in PROCESSOR_ARCHITECTURE
+$PROCESSOR_ARCH=$env:PROCESSOR_ARCHITEW6432
+if(!$PROCESSOR_ARCH) {
+    $PROCESSOR_ARCH=$env:PROCESSOR_ARCHITECTURE
+}
+if($PROCESSOR_ARCH -eq "AMD64") {
+    $ARCH="x64"
+}
+elseif($PROCESSOR_ARCH -eq "ARM64") {
+    $ARCH="arm64"
+}
+else {
+    $ARCH=$PROCESSOR_ARCH
+    printErrorAndExit "UnsupportedArch" "architecture not supported: $ARCH"
+}
+selectServerArch $ARCH
+
 # Create installation folder
 if(!(Test-Path $SERVER_DIR)) {
     try {
         ni -it d $SERVER_DIR -f -ea si
     } catch {
-        "Error creating server install directory - $($_.ToString())"
-        exit 1
+        printErrorAndExit "CreateDirFailed" "creating server install directory - $($_.ToString())"
     }
 
     if(!(Test-Path $SERVER_DIR)) {
-        "Error creating server install directory"
-        exit 1
+        printErrorAndExit "CreateDirFailed" "creating server install directory $SERVER_DIR"
     }
 }
 
@@ -509,7 +1126,6 @@ if(!(Test-Path $SERVER_SCRIPT)) {
     del vscode-server.tar.gz
 
     $REQUEST_ARGUMENTS = @{
-        Uri="${downloadUrl}"
         TimeoutSec=20
         OutFile="vscode-server.tar.gz"
         UseBasicParsing=$True
@@ -517,17 +1133,52 @@ if(!(Test-Path $SERVER_SCRIPT)) {
 
     [Net.ServicePointManager]::SecurityProtocol = [Net.SecurityProtocolType]::Tls12
 
-    Invoke-RestMethod @REQUEST_ARGUMENTS
+    printProgress "download"
+    try {
+        try {
+            Invoke-RestMethod -Uri $SERVER_DOWNLOAD_URL @REQUEST_ARGUMENTS
+        } catch {
+            # Releases without an arm64 build use the x64 one, it runs under emulation
+            if(($SERVER_ARCH -ne "arm64") -or ([int]$_.Exception.Response.StatusCode -ne 404)) {
+                throw
+            }
+            "Server not available for arm64, using the x64 build"
+            selectServerArch "x64"
+            Invoke-RestMethod -Uri $SERVER_DOWNLOAD_URL @REQUEST_ARGUMENTS
+        }
+    } catch {
+        printErrorAndExit "DownloadFailed" "downloading server from $SERVER_DOWNLOAD_URL - $($_.ToString())"
+    }
 
     if(Test-Path "vscode-server.tar.gz") {
+        # Verify the downloaded archive
+        if(!$SERVER_EXPECTED_SHA256 -and $SERVER_CHECKSUM_URL) {
+            try {
+                Invoke-RestMethod -Uri $SERVER_CHECKSUM_URL -TimeoutSec 20 -OutFile "vscode-server.tar.gz.sha256" -UseBasicParsing
+                $SERVER_EXPECTED_SHA256=((Get-Content -Raw "vscode-server.tar.gz.sha256").Trim() -split "\\s+")[0].ToLower()
+                del vscode-server.tar.gz.sha256
+            } catch {
+                del vscode-server.tar.gz
+                printErrorAndExit "DownloadFailed" "downloading server checksum from $SERVER_CHECKSUM_URL"
+            }
+        }
+
+        if($SERVER_EXPECTED_SHA256) {
+            $SERVER_ACTUAL_SHA256=(Get-FileHash -Algorithm SHA256 vscode-server.tar.gz).Hash.ToLower()
+            if($SERVER_ACTUAL_SHA256 -ne $SERVER_EXPECTED_SHA256) {
+                del vscode-server.tar.gz
+                printErrorAndExit "ChecksumMismatch" "server checksum mismatch, expected $SERVER_EXPECTED_SHA256 but got $SERVER_ACTUAL_SHA256"
+            }
+        }
+
+        printProgress "extract"
         tar -xf vscode-server.tar.gz --strip-components 1
 
         del vscode-server.tar.gz
     }
 
     if(!(Test-Path $SERVER_SCRIPT)) {
-        "Error while installing the server binary"
-        exit 1
+        printErrorAndExit "ExtractFailed" "while installing the server binary"
     }
 }
 else {
@@ -539,6 +1190,8 @@ if(Get-Process node -ErrorAction SilentlyContinue | Where-Object Path -Like "$SE
     echo "Server script is already running $SERVER_SCRIPT"
 }
 else {
+    printProgress "start"
+
     if(Test-Path $SERVER_LOGFILE) {
         del $SERVER_LOGFILE
     }
@@ -574,16 +1227,15 @@ if(Test-Path $SERVER_TOKENFILE) {
     $SERVER_CONNECTION_TOKEN="$(cat $SERVER_TOKENFILE)"
 }
 else {
-    "Error server token file not found $SERVER_TOKENFILE"
-    printInstallResults 1
-    exit 0
+    printErrorAndExit "MissingToken" "server token file not found $SERVER_TOKENFILE"
 }
 
+printProgress "listen"
 sleep -Milliseconds 500
 
 $SELECT_ARGUMENTS = @{
     Path = $SERVER_LOGFILE
-    Pattern = "Extension host agent listening on (\\d+)"
+    Pattern = "Extension host agent listening on (.+)"
 }
 
 for($I = 1; $I -le 5; $I++) {
@@ -600,9 +1252,12 @@ for($I = 1; $I -le 5; $I++) {
 }
 
 if(!(Test-Path $SERVER_LOGFILE)) {
-    "Error server log file not found $SERVER_LOGFILE"
-    printInstallResults 1
-    exit 0
+    printErrorAndExit "StartFailed" "server log file not found $SERVER_LOGFILE"
+}
+
+if(!$LISTENING_ON) {
+    $SERVER_LOG_TAIL = (Get-Content $SERVER_LOGFILE -Tail ${SERVER_LOG_TAIL_LINES}) -join [Environment]::NewLine
+    printErrorAndExit "StartTimeout" "server did not start successfully"
 }
 
 # Finish server setup
@@ -2,41 +2,207 @@ import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { exists as folderExists } from '../common/files';
+import * as cp from 'child_process';
+import { exists as folderExists, untildify } from '../common/files';
+import { isWindows } from '../common/platform';
+import { matchPatternList, SSHHostConfiguration } from './sshConfig';
 
 const PATH_SSH_USER_DIR = path.join(os.homedir(), '.ssh');
-const KNOW_HOST_FILE = path.join(PATH_SSH_USER_DIR, 'known_hosts');
+const SYSTEM_SSH_DIR = isWindows ? path.resolve(process.env.ALLUSERSPROFILE || 'C:\\ProgramData', 'ssh') : '/etc/ssh';
+// Defaults of UserKnownHostsFile and GlobalKnownHostsFile
+const DEFAULT_USER_HOST_FILES = [path.join(PATH_SSH_USER_DIR, 'known_hosts'), path.join(PATH_SSH_USER_DIR, 'known_hosts2')];
+const DEFAULT_GLOBAL_HOST_FILES = [path.join(SYSTEM_SSH_DIR, 'ssh_known_hosts'), path.join(SYSTEM_SSH_DIR, 'ssh_known_hosts2')];
 const HASH_MAGIC = '|1|';
 const HASH_DELIM = '|';
 
-export async function checkNewHostInHostkeys(host: string): Promise<boolean> {
-    const fileContent = await fs.promises.readFile(KNOW_HOST_FILE, { encoding: 'utf8' });
+export type HostKeyStatus = 'unknown' | 'match' | 'mismatch' | 'revoked';
+
+export interface HostKey {
+    type: string;
+    key: Buffer;
+}
+
+export interface KnownHostsFiles {
+    // Keys accepted by the user are added to the first one
+    userFiles: string[];
+    globalFiles: string[];
+}
+
+export interface HostFileEntry {
+    file: string;
+    marker: 'cert-authority' | 'revoked' | undefined;
+    hostPattern: string;
+    type: string;
+    key: string;
+}
+
+function expandHostFilePath(file: string): string {
+    return untildify(file).replace(/%(.)/g, (match, token: string) => {
+        switch (token) {
+            case 'd': return os.homedir();
+            case 'u': return os.userInfo().username;
+            case '%': return '%';
+            default: return match;
+        }
+    });
+}
+
+/**
+ * Known hosts files ssh reads for a host, following `UserKnownHostsFile` and `GlobalKnownHostsFile`
+ */
+export function getKnownHostsFiles(sshHostConfig: SSHHostConfiguration): KnownHostsFiles {
+    const getFiles = (keyword: string, defaultFiles: string[]) => {
+        const files = sshHostConfig[keyword];
+        if (!files?.length) {
+            return defaultFiles;
+        }
+        return files[0].toLowerCase() === 'none' ? [] : files.map(expandHostFilePath);
+    };
+    return {
+        userFiles: getFiles('userknownhostsfile', DEFAULT_USER_HOST_FILES),
+        globalFiles: getFiles('globalknownhostsfile', DEFAULT_GLOBAL_HOST_FILES)
+    };
+}
+
+async function readHostFileEntries(file: string): Promise<HostFileEntry[]> {
+    let fileContent: string;
+    try {
+        fileContent = await fs.promises.readFile(file, { encoding: 'utf8' });
+    } catch {
+        return [];
+    }
+
+    const entries: HostFileEntry[] = [];
     const lines = fileContent.split(/\r?\n/);
     for (let line of lines) {
         line = line.trim();
-        if (!line.startsWith(HASH_MAGIC)) {
+        if (!line || line.startsWith('#')) {
             continue;
         }
 
-        const [hostEncripted_] = line.split(' ');
-        const [salt_, hostHash_] = hostEncripted_.substring(HASH_MAGIC.length).split(HASH_DELIM);
+        const fields = line.split(/\s+/);
+        let marker: HostFileEntry['marker'];
+        if (fields[0].startsWith('@')) {
+            const markerName = fields.shift()!.substring(1);
+            if (markerName !== 'cert-authority' && markerName !== 'revoked') {
+                continue;
+            }
+            marker = markerName;
+        }
+
+        const [hostPattern, type, key] = fields;
+        if (hostPattern && type && key) {
+            entries.push({ file, marker, hostPattern, type, key });
+        }
+    }
+    return entries;
+}
+
+function matchHostFileEntry(entry: HostFileEntry, host: string): boolean {
+    if (entry.hostPattern.startsWith(HASH_MAGIC)) {
+        const [salt_, hostHash_] = entry.hostPattern.substring(HASH_MAGIC.length).split(HASH_DELIM);
         const hostHash = crypto.createHmac('sha1', Buffer.from(salt_, 'base64')).update(host).digest();
-        if (hostHash.toString('base64') === hostHash_) {
-            return false;
+        return hostHash.toString('base64') === hostHash_;
+    }
+
+    return matchPatternList(host, [entry.hostPattern]);
+}
+
+/**
+ * Entries of the known hosts files that apply to the host, including `@cert-authority` and `@revoked` ones
+ */
+export async function getHostFileEntries(files: KnownHostsFiles, host: string): Promise<HostFileEntry[]> {
+    const entries = await Promise.all([...files.userFiles, ...files.globalFiles].map(readHostFileEntries));
+    return entries.flat().filter(entry => matchHostFileEntry(entry, host));
+}
+
+/**
+ * Returns the name used for the host in known_hosts, non default ports use the `[host]:port` form
+ */
+export function getHostFileEntryName(host: string, port?: number): string {
+    return port && port !== 22 ? `[${host}]:${port}` : host;
+}
+
+/**
+ * Fingerprint in the same format printed by OpenSSH, e.g. SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8
+ */
+export function getHostKeyFingerprint(hostKey: Buffer): string {
+    return 'SHA256:' + crypto.createHash('sha256').update(hostKey).digest('base64').replace(/=+$/, '');
+}
+
+/**
+ * Checks a host key against the entries of the host, a mismatch means the host is known with a different key of the same type
+ */
+export function checkHostKey(entries: HostFileEntry[], hostKey: HostKey): HostKeyStatus {
+    const key = hostKey.key.toString('base64');
+    if (entries.some(entry => entry.marker === 'revoked' && entry.key === key)) {
+        return 'revoked';
+    }
+
+    let status: HostKeyStatus = 'unknown';
+    for (const entry of entries) {
+        if (entry.marker || entry.type !== hostKey.type) {
+            continue;
+        }
+        if (entry.key === key) {
+            return 'match';
         }
+        status = 'mismatch';
     }
+    return status;
+}
+
+/**
+ * Gets the host keys offered by the server using ssh-keyscan
+ */
+export function scanHostKeys(host: string, port: number | undefined, timeout: number): Promise<HostKey[]> {
+    return new Promise((resolve, reject) => {
+        const args = ['-T', timeout.toString(), '-p', (port || 22).toString(), host];
+        cp.execFile('ssh-keyscan', args, { timeout: (timeout + 5) * 1000 }, (err, stdout) => {
+            const hostKeys: HostKey[] = [];
+            for (const line of stdout.toString().split(/\r?\n/)) {
+                if (!line || line.startsWith('#')) {
+                    continue;
+                }
+                const [, type, key] = line.trim().split(/\s+/);
+                if (type && key) {
+                    hostKeys.push({ type, key: Buffer.from(key, 'base64') });
+                }
+            }
+
+            if (!hostKeys.length) {
+                reject(err || new Error(`ssh-keyscan returned no host keys for ${host}`));
+            } else {
+                resolve(hostKeys);
+            }
+        });
+    });
+}
 
-    return true;
+/**
+ * Removes all keys belonging to the host from a known hosts file using ssh-keygen
+ */
+export function removeHostFromHostFile(file: string, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        cp.execFile('ssh-keygen', ['-R', host, '-f', file], (err) => {
+            if (err) {
+                reject(err);
+            } else {
+                resolve();
+            }
+        });
+    });
 }
 
-export async function addHostToHostFile(host: string, hostKey: Buffer, type: string): Promise<void> {
-    if (!folderExists(PATH_SSH_USER_DIR)) {
-        await fs.promises.mkdir(PATH_SSH_USER_DIR, 0o700);
+export async function addHostToHostFile(file: string, host: string, hostKey: Buffer, type: string): Promise<void> {
+    const dir = path.dirname(file);
+    if (!await folderExists(dir)) {
+        await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
     }
 
     const salt = crypto.randomBytes(20);
     const hostHash = crypto.createHmac('sha1', salt).update(host).digest();
 
     const entry = `${HASH_MAGIC}${salt.toString('base64')}${HASH_DELIM}${hostHash.toString('base64')} ${type} ${hostKey.toString('base64')}\n`;
-    await fs.promises.appendFile(KNOW_HOST_FILE, entry);
+    await fs.promises.appendFile(file, entry);
 }
@@ -0,0 +1,290 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import { exists as fileExists, normalizeToSlash, untildify } from '../common/files';
+import { isWindows } from '../common/platform';
+
+const systemSSHConfig = isWindows ? path.resolve(process.env.ALLUSERSPROFILE || 'C:\\ProgramData', 'ssh\\ssh_config') : '/etc/ssh/ssh_config';
+const defaultSSHConfigPath = path.resolve(os.homedir(), '.ssh/config');
+
+// Keywords that can be specified multiple times, all values are kept instead of only the first one
+const MULTI_VALUE_KEYWORDS = ['identityfile', 'certificatefile', 'localforward', 'remoteforward', 'dynamicforward', 'sendenv', 'setenv'];
+
+export function getSSHConfigPath() {
+    const sshConfigPath = getCustomSSHConfigPath();
+    return sshConfigPath || defaultSSHConfigPath;
+}
+
+/**
+ * Returns the config file set in `remote.SSH.configFile`, this file must be passed
+ * to ssh with `-F` as it won't be read otherwise
+ */
+export function getCustomSSHConfigPath(): string | undefined {
+    const sshConfigPath = vscode.workspace.getConfiguration('remote.SSH').get<string>('configFile');
+    return sshConfigPath ? untildify(sshConfigPath) : undefined;
+}
+
+export function getDefaultSSHConfigPath() {
+    return defaultSSHConfigPath;
+}
+
+export function getSystemSSHConfigPath() {
+    return systemSSHConfig;
+}
+
+export type SSHHostConfiguration = Record<string, string[]>;
+
+interface HostCondition {
+    type: 'host';
+    patterns: string[];
+}
+
+interface MatchCondition {
+    type: 'match';
+    criteria: { keyword: string; value: string }[];
+}
+
+type SectionCondition = HostCondition | MatchCondition;
+
+interface SSHConfigSection {
+    // All conditions must match, more than one means the section comes from a conditional Include
+    conditions: SectionCondition[];
+    params: { keyword: string; args: string[] }[];
+}
+
+function tokenize(line: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let hasToken = false;
+    for (const ch of line) {
+        if (ch === '"') {
+            inQuotes = !inQuotes;
+            hasToken = true;
+        } else if (!inQuotes && /\s/.test(ch)) {
+            if (hasToken) {
+                tokens.push(current);
+                current = '';
+                hasToken = false;
+            }
+        } else {
+            current += ch;
+            hasToken = true;
+        }
+    }
+    if (hasToken) {
+        tokens.push(current);
+    }
+    return tokens;
+}
+
+function parseLine(line: string): { keyword: string; args: string[] } | undefined {
+    line = line.trim();
+    if (!line || line.startsWith('#')) {
+        return undefined;
+    }
+
+    // Keyword and arguments can be separated by whitespace or an optional '='
+    const match = line.match(/^([^\s=]+)\s*(?:=\s*|\s)(.*)$/);
+    if (!match) {
+        return { keyword: line.toLowerCase(), args: [] };
+    }
+
+    return { keyword: match[1].toLowerCase(), args: tokenize(match[2]) };
+}
+
+function patternToRegExp(pattern: string) {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Matches a value against a comma or whitespace separated list of ssh patterns,
+ * negated patterns (`!pattern`) take precedence over positive ones.
+ */
+export function matchPatternList(value: string, patterns: string[]): boolean {
+    let matched = false;
+    for (const pattern of patterns.flatMap(p => p.split(','))) {
+        if (!pattern) {
+            continue;
+        }
+        if (pattern.startsWith('!')) {
+            if (patternToRegExp(pattern.substring(1)).test(value)) {
+                return false;
+            }
+        } else if (patternToRegExp(pattern).test(value)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+function parseMatchCriteria(args: string[]): MatchCondition['criteria'] {
+    const criteria: MatchCondition['criteria'] = [];
+    for (let i = 0; i < args.length; i++) {
+        const keyword = args[i].toLowerCase();
+        if (keyword === 'all' || keyword === 'canonical' || keyword === 'final' || keyword === '!canonical' || keyword === '!final') {
+            criteria.push({ keyword, value: '' });
+        } else {
+            criteria.push({ keyword, value: args[++i] ?? '' });
+        }
+    }
+    return criteria;
+}
+
+export default class SSHConfiguration {
+
+    static async loadFromFS(configPaths?: string[]): Promise<SSHConfiguration> {
+        if (!configPaths) {
+            // ssh skips the system config file when using -F
+            const customConfigPath = getCustomSSHConfigPath();
+            configPaths = customConfigPath ? [customConfigPath] : [getDefaultSSHConfigPath(), getSystemSSHConfigPath()];
+        }
+
+        const sections: SSHConfigSection[] = [];
+        for (const configPath of configPaths) {
+            const configDir = configPath === getSystemSSHConfigPath() ? path.dirname(getSystemSSHConfigPath()) : path.dirname(getDefaultSSHConfigPath());
+            sections.push(...await parseConfigFile(configPath, configDir, [], []));
+        }
+        return new SSHConfiguration(sections);
+    }
+
+    constructor(private readonly sections: SSHConfigSection[]) {
+    }
+
+    /**
+     * Returns the host aliases declared in `Host` lines, skipping patterns with wildcards or negations
+     */
+    getAllConfiguredHosts(): string[] {
+        const hosts = new Set<string>();
+        for (const section of this.sections) {
+            const condition = section.conditions[section.conditions.length - 1];
+            if (condition?.type !== 'host') {
+                continue;
+            }
+            for (const pattern of condition.patterns.flatMap(p => p.split(','))) {
+                if (pattern && !/[*?!]/.test(pattern)) {
+                    hosts.add(pattern);
+                }
+            }
+        }
+        return [...hosts];
+    }
+
+    /**
+     * Computes the effective configuration for a host alias, following ssh semantics
+     * where the first obtained value for each keyword is used
+     */
+    getHostConfiguration(host: string, user?: string): SSHHostConfiguration {
+        const result: SSHHostConfiguration = {};
+        for (const section of this.sections) {
+            const hostname = result['hostname']?.[0] ?? host;
+            const effectiveUser = user ?? result['user']?.[0];
+            if (!section.conditions.every(c => this.matchCondition(c, host, hostname, effectiveUser))) {
+                continue;
+            }
+
+            for (const { keyword, args } of section.params) {
+                if (MULTI_VALUE_KEYWORDS.includes(keyword)) {
+                    result[keyword] = [...(result[keyword] ?? []), ...args];
+                } else if (!result[keyword]) {
+                    result[keyword] = args;
+                }
+            }
+        }
+        return result;
+    }
+
+    private matchCondition(condition: SectionCondition, originalHost: string, hostname: string, user: string | undefined): boolean {
+        if (condition.type === 'host') {
+            return matchPatternList(originalHost, condition.patterns);
+        }
+
+        for (const { keyword, value } of condition.criteria) {
+            const negated = keyword.startsWith('!');
+            let matched: boolean;
+            switch (negated ? keyword.substring(1) : keyword) {
+                case 'all':
+                case 'final':
+                    matched = true;
+                    break;
+                case 'canonical':
+                    matched = false;
+                    break;
+                case 'host':
+                    matched = matchPatternList(hostname, [value]);
+                    break;
+                case 'originalhost':
+                    matched = matchPatternList(originalHost, [value]);
+                    break;
+                case 'user':
+                    matched = user !== undefined && matchPatternList(user, [value]);
+                    break;
+                case 'localuser':
+                    matched = matchPatternList(os.userInfo().username, [value]);
+                    break;
+                default:
+                    // `exec` and other criteria can't be evaluated here, assume they don't match
+                    matched = false;
+                    break;
+            }
+            if (matched === negated) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
+
+// `includeChain` holds the files including this one, a file may be included by several blocks but not by itself
+async function parseConfigFile(configPath: string, configDir: string, parentConditions: SectionCondition[], includeChain: string[]): Promise<SSHConfigSection[]> {
+    configPath = path.resolve(configPath);
+    if (includeChain.includes(configPath) || !(await fileExists(configPath))) {
+        return [];
+    }
+    includeChain = [...includeChain, configPath];
+
+    let content: string;
+    try {
+        content = await fs.promises.readFile(configPath, 'utf8');
+    } catch {
+        return [];
+    }
+
+    // Lines before the first Host/Match belong to the enclosing block (or apply to every host)
+    let current: SSHConfigSection = { conditions: parentConditions, params: [] };
+    const sections: SSHConfigSection[] = [current];
+
+    for (const line of content.split(/\r?\n/)) {
+        const parsed = parseLine(line);
+        if (!parsed) {
+            continue;
+        }
+
+        if (parsed.keyword === 'host') {
+            current = { conditions: [...parentConditions, { type: 'host', patterns: parsed.args }], params: [] };
+            sections.push(current);
+        } else if (parsed.keyword === 'match') {
+            current = { conditions: [...parentConditions, { type: 'match', criteria: parseMatchCriteria(parsed.args) }], params: [] };
+            sections.push(current);
+        } else if (parsed.keyword === 'include') {
+            for (const includePattern of parsed.args) {
+                const includePath = untildify(includePattern);
+                const absPattern = path.isAbsolute(includePath) ? includePath : path.join(configDir, includePath);
+                const files = (await glob(normalizeToSlash(absPattern), { absolute: true, nodir: true })).sort();
+                for (const file of files) {
+                    sections.push(...await parseConfigFile(file, configDir, current.conditions, includeChain));
+                }
+            }
+            // Params after an Include still belong to the block that contained it
+            current = { conditions: current.conditions, params: [] };
+            sections.push(current);
+        } else {
+            current.params.push(parsed);
+        }
+    }
+
+    return sections.filter(s => s.params.length > 0 || s.conditions.length > parentConditions.length);
+}
@@ -1,9 +1,26 @@
 // Implementation using native OpenSSH with no ssh2 compatibility
 
 import { EventEmitter } from 'events';
+import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as net from 'net';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
 import Log from '../common/logger';
+import { isWindows } from '../common/platform';
+
+export interface SSHJumpHost {
+    /** Jump host to connect through */
+    host: string;
+    /** Port of the jump host (default: 22) */
+    port?: number;
+    /** Username for the jump host */
+    username?: string;
+    /** Path to private key used for the jump host */
+    identity?: string;
+}
 
 export interface SSHConnectConfig {
     /** Host to connect to */
@@ -14,10 +31,20 @@ export interface SSHConnectConfig {
     username?: string;
     /** Path to private key */
     identity?: string;
+    /** Jump hosts to connect through, in order, the last one connects to the host */
+    jumpHosts?: SSHJumpHost[];
+    /** Path to the ssh config file, passed with -F */
+    configFile?: string;
     /** Connection timeout in seconds */
     connectTimeout?: number;
     /** Additional SSH options */
     sshOptions?: string[];
+    /** Extra environment variables for the ssh processes, e.g. SSH_ASKPASS */
+    env?: Record<string, string>;
+    /** Whether to share a single ControlMaster connection for all commands and tunnels (default: true) */
+    multiplex?: boolean;
+    /** Control socket of a master connection owned by another process, used instead of starting one and left running on close */
+    sharedControlPath?: string;
 }
 
 export interface SSHTunnelConfig {
@@ -31,13 +58,63 @@ export interface SSHTunnelConfig {
     remoteSocketPath?: string;
     /** Unique name */
     name?: string;
+    /** Wait until a connection through the tunnel reaches the remote end before resolving (default: true) */
+    waitForRemote?: boolean;
+    /** Leave the forward open in a shared master connection when the connection is closed */
+    keepOpen?: boolean;
 }
 
 const defaultOptions: Partial<SSHConnectConfig> = {
     port: 22,
-    connectTimeout: 60
+    connectTimeout: 60,
+    multiplex: true
 };
 
+// Interval used to check if the master connection is ready to accept sessions
+const CONTROL_CHECK_INTERVAL = 200;
+
+// A probe connection that stays open this long without being closed by ssh reached the remote end
+const TUNNEL_PROBE_GRACE_TIME = 300;
+const TUNNEL_PROBE_INTERVAL = 200;
+
+export type SSHTunnelErrorCode = 'AuthenticationFailed' | 'ForwardRefused' | 'PortInUse' | 'HostUnreachable' | 'Unknown';
+
+export class SSHTunnelError extends Error {
+    constructor(readonly code: SSHTunnelErrorCode, message: string) {
+        super(message);
+    }
+}
+
+export type StreamLocalForwardingStatus = 'allowed' | 'prohibited' | 'unknown';
+
+export class SSHCancelledError extends Error {
+    constructor() {
+        super('SSH operation cancelled');
+    }
+}
+
+// Checked in order, host unreachable errors must be matched before the generic forward failures
+const TUNNEL_ERROR_PATTERNS: [SSHTunnelErrorCode, RegExp][] = [
+    ['AuthenticationFailed', /Permission denied \(|Too many authentication failures|Authentication failed|Host key verification failed/i],
+    ['HostUnreachable', /Could not resolve hostname|Name or service not known|No route to host|Network is unreachable|connect to host .+: (Connection refused|Connection timed out|Operation timed out)|Connection timed out during banner exchange|Connection closed by remote host/i],
+    ['PortInUse', /Address already in use|cannot listen to port|Could not request local forwarding/i],
+    ['ForwardRefused', /administratively prohibited|open failed|Port forwarding failed|forwarding request failed|connect failed/i]
+];
+
+/**
+ * Maps ssh error output to a tunnel error, returns undefined if no known error is found
+ */
+export function classifyTunnelError(stderr: string): SSHTunnelError | undefined {
+    for (const [code, pattern] of TUNNEL_ERROR_PATTERNS) {
+        const match = stderr.match(pattern);
+        if (match) {
+            const line = stderr.split(/\r?\n/).find(l => pattern.test(l)) || match[0];
+            return new SSHTunnelError(code, `Failed to create tunnel: ${line.trim()}`);
+        }
+    }
+    return undefined;
+}
+
 const SSHConstants = {
     'CHANNEL': {
         SSH: 'ssh',
@@ -56,6 +133,13 @@ export default class SSHConnection extends EventEmitter {
 
     private activeTunnels: { [index: string]: SSHTunnelConfig & { process?: cp.ChildProcess } } = {};
     private sshProcess: cp.ChildProcess | null = null;
+    // Every ssh process still running, killed when the connection is closed
+    private childProcesses = new Set<cp.ChildProcess>();
+    private controlDir: string | undefined;
+    private controlPath: string | undefined;
+    // Errors of forwards going through the master connection are only reported here
+    private masterStderr = '';
+    private closed = false;
     private logger: Log;
 
     constructor(options: SSHConnectConfig, logger: Log) {
@@ -66,12 +150,11 @@ export default class SSHConnection extends EventEmitter {
 
     /**
      * Build SSH command arguments based on configuration and options
-     * @param options Additional SSH options
-     * @param includeDestination Whether to include the destination in the arguments
-     * @param includeConnectOptions Whether to include connection-specific options
+     * @param extraArgs Additional SSH arguments placed before the destination
+     * @param useControlPath Whether to route the command through the master connection if there's one
      * @returns Array of SSH command arguments
      */
-    private buildSSHArgs(): string[] {
+    private buildSSHArgs(extraArgs: string[] = [], useControlPath = true): string[] {
         const sshArgs: string[] = [];
 
         // Add connection options if requested
@@ -83,6 +166,16 @@ export default class SSHConnection extends EventEmitter {
             '-T', // Disable pseudo-terminal allocation
         );
 
+        // Use custom config file if provided
+        if (this.config.configFile) {
+            sshArgs.push('-F', this.config.configFile);
+        }
+
+        // Add jump hosts if provided
+        if (this.config.jumpHosts && this.config.jumpHosts.length > 0) {
+            sshArgs.push(...this.buildJumpHostArgs(this.config.jumpHosts));
+        }
+
         // Add identity file if provided
         if (this.config.identity) {
             sshArgs.push('-i', this.config.identity);
@@ -98,7 +191,14 @@ export default class SSHConnection extends EventEmitter {
             sshArgs.push(...this.config.sshOptions);
         }
 
-        // Add destination if requested
+        // Reuse the master connection, never let this command become a master itself
+        if (useControlPath && this.controlPath) {
+            sshArgs.push('-S', this.controlPath, '-o', 'ControlMaster=no');
+        }
+
+        sshArgs.push(...extraArgs);
+
+        // Add destination
         let destination = this.config.host;
         if (this.config.username) {
             destination = `${this.config.username}@${destination}`;
@@ -108,6 +208,303 @@ export default class SSHConnection extends EventEmitter {
         return sshArgs;
     }
 
+    /**
+     * Jump hosts map to -J, unless some hop needs its own identity file which -J can't express,
+     * in that case the chain is built with nested ProxyCommand options
+     */
+    private buildJumpHostArgs(jumpHosts: SSHJumpHost[]): string[] {
+        if (!jumpHosts.some(jumpHost => jumpHost.identity)) {
+            return ['-J', jumpHosts.map(formatJumpHost).join(',')];
+        }
+
+        let proxyCommand: string | undefined;
+        for (const jumpHost of jumpHosts) {
+            const hopArgs: string[] = ['ssh'];
+            if (this.config.configFile) {
+                hopArgs.push('-F', this.config.configFile);
+            }
+            if (jumpHost.identity) {
+                hopArgs.push('-i', jumpHost.identity);
+            }
+            if (jumpHost.port && jumpHost.port !== 22) {
+                hopArgs.push('-p', jumpHost.port.toString());
+            }
+            if (proxyCommand) {
+                // Tokens of the previous hop must survive the expansion done for this one
+                hopArgs.push('-o', `ProxyCommand=${proxyCommand.replace(/%/g, '%%')}`);
+            }
+            hopArgs.push('-W', '%h:%p', jumpHost.username ? `${jumpHost.username}@${jumpHost.host}` : jumpHost.host);
+            proxyCommand = hopArgs.map(quoteShellArg).join(' ');
+        }
+
+        return ['-o', `ProxyCommand=${proxyCommand}`];
+    }
+
+    /**
+     * Start the master connection that all subsequent commands and tunnels are multiplexed over.
+     * If the local ssh client doesn't support multiplexing every command opens its own connection.
+     */
+    async connect(token?: vscode.CancellationToken): Promise<void> {
+        if (this.closed) {
+            throw new Error('SSH connection closed');
+        }
+        if (token?.isCancellationRequested) {
+            throw new SSHCancelledError();
+        }
+        if (this.sshProcess) {
+            return;
+        }
+
+        this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.BEFORECONNECT);
+
+        if (this.config.sharedControlPath) {
+            if (!await this.checkControlSocket(this.config.sharedControlPath)) {
+                throw new Error(`Shared SSH master connection ${this.config.sharedControlPath} is not running`);
+            }
+            this.controlPath = this.config.sharedControlPath;
+            this.logger.info(`Using shared SSH master connection, control socket ${this.controlPath}`);
+            this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.CONNECT);
+            return;
+        }
+
+        // Win32-OpenSSH doesn't implement ControlMaster
+        if (!this.config.multiplex || isWindows) {
+            this.logger.info('SSH connection multiplexing not available, using a new connection for each command');
+            this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.CONNECT);
+            return;
+        }
+
+        // Keep the socket path short, unix sockets have a length limit of ~104 characters
+        this.controlDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ors-'));
+        const controlPath = path.join(this.controlDir, 'master.sock');
+
+        const sshArgs = this.getMasterArgs(controlPath);
+        this.logger.info(`Starting SSH master connection with arguments ${sshArgs}`);
+        const masterProcess = this.spawnSSH(sshArgs);
+        this.sshProcess = masterProcess;
+
+        let stderr = '';
+        this.masterStderr = '';
+        masterProcess.stderr?.on('data', (data) => {
+            stderr += data.toString();
+            this.masterStderr = stderr;
+        });
+
+        const exitPromise = new Promise<number | null>(resolve => {
+            masterProcess.on('error', (err) => {
+                this.logger.error('SSH master connection process error', err);
+                resolve(null);
+            });
+            masterProcess.on('exit', (code) => resolve(code));
+        });
+
+        exitPromise.then((code) => {
+            if (this.sshProcess !== masterProcess) {
+                return;
+            }
+            this.sshProcess = null;
+            if (this.controlPath) {
+                this.controlPath = undefined;
+                this.removeControlDir();
+
+                // Forwards owned by the master connection are gone with it
+                for (const [name, tunnel] of Object.entries(this.activeTunnels)) {
+                    if (!tunnel.process) {
+                        delete this.activeTunnels[name];
+                        this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.DISCONNECT, {
+                            SSHTunnelConfig: tunnel,
+                            err: new Error('SSH master connection closed')
+                        });
+                    }
+                }
+
+                this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.DISCONNECT, {
+                    err: new Error(`SSH master connection exited with code ${code}: ${stderr.trim()}`)
+                });
+            }
+        });
+
+        const deadline = Date.now() + (this.config.connectTimeout ?? 60) * 1000;
+        while (Date.now() < deadline) {
+            const exited = await Promise.race([exitPromise.then(() => true), delay(CONTROL_CHECK_INTERVAL).then(() => false)]);
+            if (token?.isCancellationRequested) {
+                if (this.sshProcess === masterProcess) {
+                    masterProcess.kill();
+                    this.sshProcess = null;
+                }
+                await this.removeControlDir();
+                throw new SSHCancelledError();
+            }
+            if (exited) {
+                break;
+            }
+            if (await this.checkControlSocket(controlPath)) {
+                this.controlPath = controlPath;
+                this.logger.info(`SSH master connection established, control socket ${controlPath}`);
+                this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.CONNECT);
+                return;
+            }
+        }
+
+        if (this.closed) {
+            throw new Error('SSH connection closed');
+        }
+
+        // Fallback to one connection per command, if the problem is not multiplexing related
+        // the actual error will be surfaced by the next command
+        this.logger.error(`Could not establish SSH master connection, falling back to a new connection for each command: ${stderr.trim()}`);
+        if (this.sshProcess === masterProcess) {
+            masterProcess.kill();
+            this.sshProcess = null;
+        }
+        await this.removeControlDir();
+        this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.CONNECT);
+    }
+
+    private async checkControlSocket(controlPath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(controlPath);
+        } catch {
+            return false;
+        }
+
+        const { code } = await this.runControlCommand('check', [], controlPath);
+        return code === 0;
+    }
+
+    /**
+     * Arguments to start a master connection listening on `controlPath`, for the process that owns it
+     */
+    getMasterArgs(controlPath: string): string[] {
+        return this.buildSSHArgs(['-M', '-S', controlPath, '-o', 'ControlPersist=no', '-N'], false);
+    }
+
+    /**
+     * Arguments to send a control command (`ssh -O`) to the master connection listening on `controlPath`
+     */
+    getControlArgs(controlPath: string, ctlCmd: string, extraArgs: string[] = []): string[] {
+        return this.buildSSHArgs(['-S', controlPath, '-O', ctlCmd, ...extraArgs], false);
+    }
+
+    /**
+     * Send a control command (`ssh -O`) to the master connection
+     */
+    private runControlCommand(ctlCmd: string, extraArgs: string[], controlPath = this.controlPath): Promise<{ code: number | null; stderr: string }> {
+        return new Promise((resolve) => {
+            const sshArgs = this.getControlArgs(controlPath!, ctlCmd, extraArgs);
+            cp.execFile('ssh', sshArgs, { env: this.getSpawnEnv() }, (err, _stdout, stderr) => {
+                resolve({ code: err ? (typeof err.code === 'number' ? err.code : 1) : 0, stderr: stderr.toString() });
+            });
+        });
+    }
+
+    /**
+     * Run ssh locally without going through the master connection
+     */
+    private runSSH(sshArgs: string[]): Promise<{ code: number | null; stdout: string; stderr: string }> {
+        return new Promise((resolve) => {
+            const timeout = ((this.config.connectTimeout ?? 60) + 5) * 1000;
+            cp.execFile('ssh', sshArgs, { env: this.getSpawnEnv(), timeout }, (err, stdout, stderr) => {
+                resolve({ code: err ? (typeof err.code === 'number' ? err.code : 1) : 0, stdout: stdout.toString(), stderr: stderr.toString() });
+            });
+        });
+    }
+
+    /**
+     * Effective client configuration for the host as evaluated by `ssh -G`
+     */
+    async getEffectiveConfig(): Promise<Record<string, string[]>> {
+        const { code, stdout, stderr } = await this.runSSH(this.buildSSHArgs(['-G'], false));
+        if (code !== 0) {
+            throw new Error(`ssh -G failed with exit code ${code}: ${stderr.trim()}`);
+        }
+
+        const config: Record<string, string[]> = {};
+        for (const line of stdout.split(/\r?\n/)) {
+            const [keyword, ...args] = line.trim().split(' ');
+            if (keyword) {
+                config[keyword] = [...(config[keyword] ?? []), args.join(' ')];
+            }
+        }
+        return config;
+    }
+
+    /**
+     * Authentication methods offered by the server, found by attempting `none` authentication
+     * without prompting. An empty list means the server accepted `none` authentication.
+     */
+    async getOfferedAuthMethods(): Promise<string[]> {
+        const { code, stderr } = await this.runSSH([
+            ...this.buildSSHArgs(['-o', 'BatchMode=yes', '-o', 'PreferredAuthentications=none', '-o', 'NumberOfPasswordPrompts=0'], false),
+            'exit'
+        ]);
+        if (code === 0) {
+            return [];
+        }
+
+        const match = stderr.match(/Permission denied \(([^)]*)\)/);
+        if (!match) {
+            throw new Error(stderr.trim() || `ssh exited with code ${code}`);
+        }
+        return match[1].split(',').filter(method => method && method !== 'none');
+    }
+
+    /**
+     * Checks whether the server allows forwarding unix sockets (`AllowStreamLocalForwarding`). A socket that
+     * doesn't exist is forwarded, the reason ssh gives for failing to open the channel tells if it was refused.
+     * Win32-OpenSSH forwards unix sockets to named pipes.
+     */
+    async checkStreamLocalForwarding(windowsHost = false): Promise<{ status: StreamLocalForwardingStatus; detail: string }> {
+        const checkId = crypto.randomBytes(6).toString('hex');
+        const name = `streamlocal-check-${checkId}`;
+        const masterStderrOffset = this.masterStderr.length;
+        let tunnelStderr = '';
+        try {
+            const remoteSocketPath = windowsHost ? `\\\\.\\pipe\\ors-check-${checkId}` : `/tmp/.ors-check-${checkId}.sock`;
+            const tunnel = await this.addTunnel({ name, remoteSocketPath, waitForRemote: false });
+            tunnel.process?.stderr?.on('data', (data) => {
+                tunnelStderr += data.toString();
+            });
+            await probeLocalPort(tunnel.localPort!, TUNNEL_PROBE_GRACE_TIME);
+            await delay(TUNNEL_PROBE_GRACE_TIME);
+        } catch (err) {
+            if (!(err instanceof SSHTunnelError)) {
+                throw err;
+            }
+            tunnelStderr += err.message;
+        } finally {
+            await this.closeTunnel(name);
+        }
+
+        const output = this.masterStderr.substring(masterStderrOffset) + '\n' + tunnelStderr;
+        const detail = output.split(/\r?\n/).find(line => /open failed|prohibited/i.test(line))?.trim() ?? '';
+        if (/administratively prohibited/i.test(detail)) {
+            return { status: 'prohibited', detail };
+        }
+        // Any other failure means the server tried to connect to the socket
+        return { status: detail ? 'allowed' : 'unknown', detail };
+    }
+
+    private async removeControlDir() {
+        if (this.controlDir) {
+            const controlDir = this.controlDir;
+            this.controlDir = undefined;
+            await fs.promises.rm(controlDir, { recursive: true, force: true }).catch(() => { });
+        }
+    }
+
+    private getSpawnEnv(): NodeJS.ProcessEnv {
+        return { ...process.env, ...this.config.env };
+    }
+
+    private spawnSSH(sshArgs: string[]): cp.ChildProcessWithoutNullStreams {
+        const childProcess = cp.spawn('ssh', sshArgs, { env: this.getSpawnEnv() });
+        this.childProcesses.add(childProcess);
+        childProcess.on('exit', () => this.childProcesses.delete(childProcess));
+        childProcess.on('error', () => this.childProcesses.delete(childProcess));
+        return childProcess;
+    }
+
     /**
      * Emit message on this channel
      */
@@ -117,9 +514,17 @@ export default class SSHConnection extends EventEmitter {
     }
 
     /**
-     * Execute a command on the remote host
+     * Execute a command on the remote host, the command is killed if `options.token` is cancelled
      */
     exec(cmd: string, params?: Array<string>, options: any = {}): Promise<{ stdout: string; stderr: string }> {
+        if (this.closed) {
+            return Promise.reject(new Error('SSH connection closed'));
+        }
+        const token: vscode.CancellationToken | undefined = options.token;
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new SSHCancelledError());
+        }
+
         cmd += (Array.isArray(params) ? (' ' + params.join(' ')) : '');
 
         return new Promise((resolve, reject) => {
@@ -129,11 +534,18 @@ export default class SSHConnection extends EventEmitter {
             // Add the command to execute
             sshArgs.push(cmd);
 
-            this.logger.info(`Starting SSH command with arguments ${sshArgs}`);
-            const execProcess = cp.spawn('ssh', sshArgs);
+            this.logger.trace(`Starting SSH command with arguments ${sshArgs}`);
+            const execProcess = this.spawnSSH(sshArgs);
 
             let stdout = '';
             let stderr = '';
+            let cancelled = false;
+
+            const cancelListener = token?.onCancellationRequested(() => {
+                cancelled = true;
+                execProcess.kill();
+                reject(new SSHCancelledError());
+            });
 
             execProcess.stdout.on('data', (data) => {
                 stdout += data.toString();
@@ -144,6 +556,10 @@ export default class SSHConnection extends EventEmitter {
             });
 
             execProcess.on('close', (code) => {
+                cancelListener?.dispose();
+                if (cancelled) {
+                    return;
+                }
                 if (code === 0 || options.ignoreExitCode) {
                     resolve({ stdout, stderr });
                 } else {
@@ -152,6 +568,76 @@ export default class SSHConnection extends EventEmitter {
                 }
             });
 
+            execProcess.on('error', (err) => {
+                cancelListener?.dispose();
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * Round-trip time in milliseconds of running a no-op command over the connection,
+     * it includes starting the ssh client which reuses the master connection
+     */
+    async ping(token?: vscode.CancellationToken): Promise<number> {
+        const start = Date.now();
+        await this.exec('exit', undefined, { token });
+        return Date.now() - start;
+    }
+
+    /**
+     * Execute a command on the remote host with the given stream piped to its stdin
+     */
+    execWithInput(cmd: string, input: NodeJS.ReadableStream, options: { token?: vscode.CancellationToken } = {}): Promise<{ stdout: string; stderr: string }> {
+        if (this.closed) {
+            return Promise.reject(new Error('SSH connection closed'));
+        }
+        const { token } = options;
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new SSHCancelledError());
+        }
+
+        return new Promise((resolve, reject) => {
+            const sshArgs = this.buildSSHArgs();
+            sshArgs.push(cmd);
+
+            this.logger.trace(`Starting SSH command with arguments ${sshArgs}`);
+            const execProcess = this.spawnSSH(sshArgs);
+
+            let stdout = '';
+            let stderr = '';
+
+            execProcess.stdout.on('data', (data) => {
+                stdout += data.toString();
+            });
+
+            execProcess.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            const onAbort = () => {
+                execProcess.kill();
+                reject(new SSHCancelledError());
+            };
+            const cancelListener = token?.onCancellationRequested(onAbort);
+
+            input.on('error', (err) => {
+                execProcess.kill();
+                reject(err);
+            });
+            // The remote command fails on its own if stdin is cut short
+            execProcess.stdin.on('error', () => { });
+            input.pipe(execProcess.stdin);
+
+            execProcess.on('close', (code) => {
+                cancelListener?.dispose();
+                if (code === 0) {
+                    resolve({ stdout, stderr });
+                } else {
+                    reject(new Error(`Command ${sshArgs} failed with exit code ${code}: ${stdout} ${stderr}`));
+                }
+            });
+
             execProcess.on('error', (err) => {
                 reject(err);
             });
@@ -159,9 +645,18 @@ export default class SSHConnection extends EventEmitter {
     }
 
     /**
-     * Execute a command and resolve when a specific condition is met
+     * Execute a command and resolve when a specific condition is met,
+     * the command is killed if `options.token` is cancelled before that
      */
     execAndWaitUntil(cmd: string, tester: (stdout: string, stderr: string) => boolean, params?: Array<string>, options: any = {}): Promise<{ stdout: string; stderr: string }> {
+        if (this.closed) {
+            return Promise.reject(new Error('SSH connection closed'));
+        }
+        const token: vscode.CancellationToken | undefined = options.token;
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new SSHCancelledError());
+        }
+
         cmd += (Array.isArray(params) ? (' ' + params.join(' ')) : '');
 
         return new Promise((resolve, reject) => {
@@ -171,13 +666,22 @@ export default class SSHConnection extends EventEmitter {
             // Add the command to execute
             sshArgs.push(cmd);
 
-            this.logger.info(`Starting SSH command with arguments ${sshArgs}`);
-            const execProcess = cp.spawn('ssh', sshArgs);
+            this.logger.trace(`Starting SSH command with arguments ${sshArgs}`);
+            const execProcess = this.spawnSSH(sshArgs);
 
             let stdout = '';
             let stderr = '';
             let resolved = false;
 
+            const onAbort = () => {
+                if (!resolved) {
+                    resolved = true;
+                    execProcess.kill();
+                    reject(new SSHCancelledError());
+                }
+            };
+            const cancelListener = token?.onCancellationRequested(onAbort);
+
             execProcess.stdout.on('data', (data) => {
                 stdout += data.toString();
 
@@ -197,7 +701,9 @@ export default class SSHConnection extends EventEmitter {
             });
 
             execProcess.on('close', (code) => {
+                cancelListener?.dispose();
                 if (!resolved) {
+                    resolved = true;
                     if (code === 0 || options.ignoreExitCode) {
                         resolve({ stdout, stderr });
                     } else {
@@ -208,6 +714,7 @@ export default class SSHConnection extends EventEmitter {
             });
 
             execProcess.on('error', (err) => {
+                cancelListener?.dispose();
                 if (!resolved) {
                     reject(err);
                 }
@@ -216,9 +723,63 @@ export default class SSHConnection extends EventEmitter {
     }
 
     /**
-     * Create an SSH tunnel
+     * Execute a long running command on the remote host passing its output to `onOutput` as it's received,
+     * resolves with the exit code when the command exits, the command is killed if `options.token` is cancelled
      */
-    addTunnel(tunnelConfig: SSHTunnelConfig): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+    execStream(cmd: string, onOutput: (data: string) => void, options: { token?: vscode.CancellationToken } = {}): Promise<number | null> {
+        if (this.closed) {
+            return Promise.reject(new Error('SSH connection closed'));
+        }
+        const { token } = options;
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new SSHCancelledError());
+        }
+
+        return new Promise((resolve, reject) => {
+            const sshArgs = this.buildSSHArgs();
+            sshArgs.push(cmd);
+
+            this.logger.trace(`Starting SSH command with arguments ${sshArgs}`);
+            const execProcess = this.spawnSSH(sshArgs);
+
+            let settled = false;
+            const cancelListener = token?.onCancellationRequested(() => {
+                if (!settled) {
+                    settled = true;
+                    execProcess.kill();
+                    reject(new SSHCancelledError());
+                }
+            });
+
+            execProcess.stdout.on('data', (data) => onOutput(data.toString()));
+            execProcess.stderr.on('data', (data) => onOutput(data.toString()));
+
+            execProcess.on('close', (code) => {
+                cancelListener?.dispose();
+                if (!settled) {
+                    settled = true;
+                    resolve(code);
+                }
+            });
+
+            execProcess.on('error', (err) => {
+                cancelListener?.dispose();
+                if (!settled) {
+                    settled = true;
+                    reject(err);
+                }
+            });
+        });
+    }
+
+    /**
+     * Create an SSH tunnel, a tunnel still being established is closed if `token` is cancelled
+     */
+    addTunnel(tunnelConfig: SSHTunnelConfig, token?: vscode.CancellationToken): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+        if (this.closed) {
+            return Promise.reject(new Error('SSH connection closed'));
+        }
+
         this.logger.info(`Creating tunnel: name: ${tunnelConfig.name}, remoteAddr: ${tunnelConfig.remoteAddr}@${tunnelConfig.remotePort || tunnelConfig.remoteSocketPath}, localPort ${tunnelConfig.localPort}`);
 
         tunnelConfig.name = tunnelConfig.name || `${tunnelConfig.remoteAddr}@${tunnelConfig.remotePort || tunnelConfig.remoteSocketPath}`;
@@ -229,13 +790,17 @@ export default class SSHConnection extends EventEmitter {
             return Promise.resolve(this.getTunnel(tunnelConfig.name));
         }
 
-        return this._createTunnel(tunnelConfig);
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new SSHCancelledError());
+        }
+
+        return this._createTunnel(tunnelConfig, token);
     }
 
     /**
      * Internal method to create the actual tunnel
      */
-    private _createTunnel(tunnelConfig: SSHTunnelConfig): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+    private _createTunnel(tunnelConfig: SSHTunnelConfig, token?: vscode.CancellationToken): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
         return new Promise((resolve, reject) => {
             // Determine local port
             const localPort = tunnelConfig.localPort || 0;
@@ -247,14 +812,14 @@ export default class SSHConnection extends EventEmitter {
                     const port = (server.address() as net.AddressInfo).port;
                     server.close(() => {
                         // Now we have a random port, create the actual tunnel
-                        this._startTunnelProcess(tunnelConfig, port)
+                        this._startTunnelProcess(tunnelConfig, port, token)
                             .then(resolve)
                             .catch(reject);
                     });
                 });
             } else {
                 // Use the specified port
-                this._startTunnelProcess(tunnelConfig, localPort)
+                this._startTunnelProcess(tunnelConfig, localPort, token)
                     .then(resolve)
                     .catch(reject);
             }
@@ -264,29 +829,26 @@ export default class SSHConnection extends EventEmitter {
     /**
      * Start the SSH tunnel process
      */
-    private _startTunnelProcess(tunnelConfig: SSHTunnelConfig, localPort: number): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+    private _startTunnelProcess(tunnelConfig: SSHTunnelConfig, localPort: number, token?: vscode.CancellationToken): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+        if (this.controlPath) {
+            return this._startMultiplexedForward(tunnelConfig, localPort, token);
+        }
+
         return new Promise((resolve, reject) => {
             // Prepare tunnel-specific arguments
-            const tunnelArgs: string[] = ['-N']; // Don't execute a remote command
-
-            if (tunnelConfig.remoteSocketPath) {
-                // Forward to a Unix socket
-                tunnelArgs.push('-L', `${localPort}:${tunnelConfig.remoteSocketPath}`);
-            } else {
-                // Standard port forwarding
-                tunnelArgs.push(
-                    '-L',
-                    `${localPort}:${tunnelConfig.remoteAddr || 'localhost'}:${tunnelConfig.remotePort}`
-                );
-            }
+            const tunnelArgs: string[] = [
+                '-N', // Don't execute a remote command
+                '-o', 'ExitOnForwardFailure=yes',
+                '-L', getForwardSpec(tunnelConfig, localPort)
+            ];
 
             // Build SSH command with connection options and tunnel-specific args
             const sshArgs = this.buildSSHArgs();
             sshArgs.push(...tunnelArgs);
 
             // Start the tunnel process
-            this.logger.info(`Starting SSH command with arguments ${sshArgs}`);
-            const tunnelProcess = cp.spawn('ssh', sshArgs);
+            this.logger.trace(`Starting SSH command with arguments ${sshArgs}`);
+            const tunnelProcess = this.spawnSSH(sshArgs);
 
             // Store the tunnel configuration
             const tunnel = {
@@ -297,59 +859,122 @@ export default class SSHConnection extends EventEmitter {
 
             this.activeTunnels[tunnelConfig.name!] = tunnel;
 
-            // Handle errors
-            tunnelProcess.on('error', (err) => {
-                this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.DISCONNECT, {
-                    SSHTunnelConfig: tunnelConfig,
-                    err
-                });
+            let stderr = '';
+            let settled = false;
+            const fail = (err: SSHTunnelError | SSHCancelledError) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                cancelListener?.dispose();
+                tunnelProcess.kill();
                 delete this.activeTunnels[tunnelConfig.name!];
                 reject(err);
+            };
+            const cancelListener = token?.onCancellationRequested(() => fail(new SSHCancelledError()));
+
+            // Handle errors
+            tunnelProcess.on('error', (err) => {
+                if (!settled) {
+                    fail(new SSHTunnelError('Unknown', `Failed to create tunnel: ${err.message}`));
+                } else if (this.activeTunnels[tunnelConfig.name!]) {
+                    this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.DISCONNECT, {
+                        SSHTunnelConfig: tunnelConfig,
+                        err
+                    });
+                    delete this.activeTunnels[tunnelConfig.name!];
+                }
             });
 
             // Check if the process exits unexpectedly
             tunnelProcess.on('exit', (code) => {
-                if (code !== 0 && this.activeTunnels[tunnelConfig.name!]) {
+                if (!settled) {
+                    fail(classifyTunnelError(stderr) || new SSHTunnelError('Unknown', `Tunnel process exited with code ${code}: ${stderr.trim()}`));
+                } else if (code !== 0 && this.activeTunnels[tunnelConfig.name!]) {
                     this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.DISCONNECT, {
                         SSHTunnelConfig: tunnelConfig,
-                        err: new Error(`Tunnel process exited with code ${code}`)
+                        err: classifyTunnelError(stderr) || new SSHTunnelError('Unknown', `Tunnel process exited with code ${code}`)
                     });
                     delete this.activeTunnels[tunnelConfig.name!];
                 }
             });
 
-            // Collect stderr output for error reporting
-            let stderr = '';
-            tunnelProcess.stderr?.on('data', (data) => {
+            // Collect stderr output for error reporting, fail fast on errors the tunnel can't recover from
+            tunnelProcess.stderr.on('data', (data) => {
                 stderr += data.toString();
 
-                // Check for common error messages
-                if (stderr.includes('Address already in use') ||
-                    stderr.includes('Permission denied') ||
-                    stderr.includes('Connection refused')) {
-                    tunnelProcess.kill();
-                    delete this.activeTunnels[tunnelConfig.name!];
-                    reject(new Error(`Failed to create tunnel: ${stderr.trim()}`));
+                const err = classifyTunnelError(stderr);
+                if (err && err.code !== 'ForwardRefused') {
+                    fail(err);
                 }
             });
 
-            // Wait a short time to ensure the tunnel is established
-            setTimeout(() => {
-                // If the process is still running, assume the tunnel is established
-                if (tunnelProcess.exitCode === null) {
-                    this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.CONNECT, {
-                        SSHTunnelConfig: tunnel
-                    });
-                    resolve(tunnel);
-                } else if (!stderr) {
-                    // Process exited but no error message
-                    reject(new Error(`Tunnel process exited with code ${tunnelProcess.exitCode}`));
+            // The tunnel is ready once a connection through the local port reaches the remote end
+            this.waitForTunnel(localPort, tunnelConfig.waitForRemote ?? true, () => settled).then(() => {
+                if (settled) {
+                    return;
                 }
-                // If there was an error message, it would have been handled in the stderr handler
-            }, 1000);
+                settled = true;
+                cancelListener?.dispose();
+                this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.CONNECT, {
+                    SSHTunnelConfig: tunnel
+                });
+                resolve(tunnel);
+            }, (err: SSHTunnelError) => {
+                fail(classifyTunnelError(stderr) || err);
+            });
         });
     }
 
+    /**
+     * Probes the local end of a tunnel until a connection is forwarded to the remote end,
+     * ssh closes the local connection right away if the remote side can't be reached
+     */
+    private async waitForTunnel(localPort: number, waitForRemote: boolean, isSettled: () => boolean): Promise<void> {
+        const deadline = Date.now() + (this.config.connectTimeout ?? 60) * 1000;
+        let lastResult: ProbeResult = 'refused';
+        while (Date.now() < deadline && !isSettled()) {
+            lastResult = await probeLocalPort(localPort, TUNNEL_PROBE_GRACE_TIME);
+            // If nothing is listening yet on the remote end, it's enough that the local port accepts connections
+            if (lastResult === 'ready' || (!waitForRemote && lastResult === 'closed')) {
+                return;
+            }
+            await delay(TUNNEL_PROBE_INTERVAL);
+        }
+
+        if (lastResult === 'closed') {
+            throw new SSHTunnelError('ForwardRefused', `Connection to the remote end of the tunnel on local port ${localPort} was refused`);
+        }
+        throw new SSHTunnelError('Unknown', `Timed out waiting for tunnel on local port ${localPort}`);
+    }
+
+    /**
+     * Ask the master connection to open the forward, no new ssh process is needed
+     */
+    private async _startMultiplexedForward(tunnelConfig: SSHTunnelConfig, localPort: number, token?: vscode.CancellationToken): Promise<SSHTunnelConfig & { process?: cp.ChildProcess }> {
+        // The master connection confirms the forward once the local port is listening
+        const forwardSpec = getForwardSpec(tunnelConfig, localPort);
+        const { code, stderr } = await this.runControlCommand('forward', ['-L', forwardSpec]);
+        if (code !== 0) {
+            throw classifyTunnelError(stderr) || new SSHTunnelError('ForwardRefused', `Failed to create tunnel: ${stderr.trim()}`);
+        }
+        if (token?.isCancellationRequested) {
+            await this.runControlCommand('cancel', ['-L', forwardSpec]);
+            throw new SSHCancelledError();
+        }
+
+        const tunnel = {
+            ...tunnelConfig,
+            localPort
+        };
+        this.activeTunnels[tunnelConfig.name!] = tunnel;
+
+        this.emit(SSHConstants.CHANNEL.TUNNEL, SSHConstants.STATUS.CONNECT, {
+            SSHTunnelConfig: tunnel
+        });
+        return tunnel;
+    }
+
     /**
      * Get an existing tunnel by name
      */
@@ -362,26 +987,28 @@ export default class SSHConnection extends EventEmitter {
      */
     closeTunnel(name?: string): Promise<void> {
         if (name && this.activeTunnels[name]) {
-            return new Promise((resolve) => {
-                const tunnel = this.activeTunnels[name];
-                this.emit(
-                    SSHConstants.CHANNEL.TUNNEL,
-                    SSHConstants.STATUS.BEFOREDISCONNECT,
-                    { SSHTunnelConfig: tunnel }
-                );
+            const tunnel = this.activeTunnels[name];
+            this.emit(
+                SSHConstants.CHANNEL.TUNNEL,
+                SSHConstants.STATUS.BEFOREDISCONNECT,
+                { SSHTunnelConfig: tunnel }
+            );
+            delete this.activeTunnels[name];
 
-                // Close the tunnel process
-                if (tunnel.process) {
-                    tunnel.process.kill();
-                }
+            // Close the tunnel process, or cancel the forward in the master connection
+            let closePromise = Promise.resolve();
+            if (tunnel.process) {
+                tunnel.process.kill();
+            } else if (this.controlPath) {
+                closePromise = this.runControlCommand('cancel', ['-L', getForwardSpec(tunnel, tunnel.localPort!)]).then(() => { });
+            }
 
+            return closePromise.then(() => {
                 this.emit(
                     SSHConstants.CHANNEL.TUNNEL,
                     SSHConstants.STATUS.DISCONNECT,
                     { SSHTunnelConfig: tunnel }
                 );
-                delete this.activeTunnels[name];
-                resolve();
             });
         } else if (!name) {
             const tunnels = Object.keys(this.activeTunnels).map((key) => this.closeTunnel(key));
@@ -395,15 +1022,92 @@ export default class SSHConnection extends EventEmitter {
      * Close the SSH connection
      */
     close(): Promise<void> {
+        this.closed = true;
         this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.BEFOREDISCONNECT);
 
-        return this.closeTunnel().then(() => {
+        // These forwards belong to the shared master connection and outlive this connection
+        for (const [name, tunnel] of Object.entries(this.activeTunnels)) {
+            if (tunnel.keepOpen && !tunnel.process && this.config.sharedControlPath) {
+                delete this.activeTunnels[name];
+            }
+        }
+
+        return this.closeTunnel().then(async () => {
+            this.controlPath = undefined;
             if (this.sshProcess) {
                 this.sshProcess.kill();
                 this.sshProcess = null;
             }
+            for (const childProcess of this.childProcesses) {
+                childProcess.kill();
+            }
+            this.childProcesses.clear();
+            await this.removeControlDir();
 
             this.emit(SSHConstants.CHANNEL.SSH, SSHConstants.STATUS.DISCONNECT);
         });
     }
 }
+
+function getForwardSpec(tunnelConfig: SSHTunnelConfig, localPort: number) {
+    if (tunnelConfig.remoteSocketPath) {
+        // Forward to a Unix socket
+        return `${localPort}:${tunnelConfig.remoteSocketPath}`;
+    }
+
+    // Standard port forwarding
+    return `${localPort}:${tunnelConfig.remoteAddr || 'localhost'}:${tunnelConfig.remotePort}`;
+}
+
+function formatJumpHost(jumpHost: SSHJumpHost) {
+    let result = jumpHost.host;
+    if (jumpHost.username) {
+        result = `${jumpHost.username}@${result}`;
+    }
+    if (jumpHost.port && jumpHost.port !== 22) {
+        result = `${result}:${jumpHost.port}`;
+    }
+    return result;
+}
+
+function quoteShellArg(arg: string) {
+    if (/^[\w@%:,./=+-]+$/.test(arg)) {
+        return arg;
+    }
+    return isWindows ? `"${arg.replace(/"/g, '\\"')}"` : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export type ProbeResult = 'ready' | 'refused' | 'closed';
+
+/**
+ * Connects to a local port forwarded by ssh, the connection is closed by ssh if the remote end can't be reached
+ */
+export function probeLocalPort(port: number, graceTime: number): Promise<ProbeResult> {
+    return new Promise(resolve => {
+        let timer: NodeJS.Timeout | undefined;
+        let done = false;
+        const finish = (result: ProbeResult) => {
+            if (done) {
+                return;
+            }
+            done = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            socket.destroy();
+            resolve(result);
+        };
+
+        const socket = net.connect(port, '127.0.0.1');
+        socket.once('connect', () => {
+            timer = setTimeout(() => finish('ready'), graceTime);
+        });
+        socket.once('data', () => finish('ready'));
+        socket.once('close', () => finish('closed'));
+        socket.once('error', (err: Error & { code?: string }) => finish(err.code === 'ECONNREFUSED' ? 'refused' : 'closed'));
+    });
+}
+
+function delay(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
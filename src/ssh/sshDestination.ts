@@ -1,33 +1,134 @@
+// Bump when the encoded format changes, older authorities must still be parsed
+const ENCODED_FORMAT_VERSION = 1;
+
+interface SSHDestinationData {
+    v?: number;
+    hostName: string;
+    alias?: string;
+    user?: string;
+    port?: number;
+    identity?: string;
+    jumpHosts?: SSHDestinationData[];
+}
+
 export default class SSHDestination {
     constructor(
         public readonly hostname: string,
         public readonly user?: string,
-        public readonly port?: number
+        public readonly port?: number,
+        public readonly identity?: string,
+        public readonly jumpHosts: SSHDestination[] = [],
+        public readonly alias?: string
     ) {
     }
 
+    /**
+     * Host passed to ssh, an alias from the ssh config file takes precedence
+     * so all its settings apply
+     */
+    get sshHost(): string {
+        return this.alias || this.hostname;
+    }
+
+    toDisplayString(): string {
+        return this.alias || this.toString();
+    }
+
+    /**
+     * Parses `[user@]hostname[:port]`, optionally with an identity file and a chain of jump hosts
+     * using the same options as ssh: `[user@]hostname[:port] [-i identity] [-J jump1,jump2]`.
+     * Jump hosts are written `[user@]hostname[:port][#identity]`, values with spaces can be quoted
+     */
     static parse(dest: string): SSHDestination {
+        const tokens = (dest.match(/"[^"]*"|\S+/g) || []).map(token => token.replace(/^"(.*)"$/, '$1'));
+        let target: string | undefined;
+        let identity: string | undefined;
+        let jumpHosts: SSHDestination[] = [];
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (!token.startsWith('-')) {
+                if (target !== undefined) {
+                    throw new Error(`Invalid SSH destination '${dest}': unexpected '${token}'`);
+                }
+                target = token;
+                continue;
+            }
+
+            // Option values can be attached like `-Jjump`
+            const option = token.substring(0, 2);
+            const value = token.length > 2 ? token.substring(2) : tokens[++i];
+            if (!value) {
+                throw new Error(`Invalid SSH destination '${dest}': missing value for ${option}`);
+            }
+            if (option === '-J') {
+                jumpHosts = value.split(',').map(jump => SSHDestination.parseHost(jump, dest));
+            } else if (option === '-i') {
+                identity = value;
+            } else {
+                throw new Error(`Invalid SSH destination '${dest}': unsupported option ${option}`);
+            }
+        }
+
+        if (target === undefined) {
+            throw new Error(`Invalid SSH destination '${dest}': missing hostname`);
+        }
+        const targetDest = SSHDestination.parseHost(target, dest);
+        return new SSHDestination(targetDest.hostname, targetDest.user, targetDest.port, identity ?? targetDest.identity, jumpHosts);
+    }
+
+    private static parseHost(hostSpec: string, dest: string): SSHDestination {
+        let host = hostSpec;
+        let identity: string | undefined;
+        const hashPos = host.indexOf('#');
+        if (hashPos !== -1) {
+            identity = host.substring(hashPos + 1);
+            host = host.substring(0, hashPos);
+        }
+
         let user: string | undefined;
-        const atPos = dest.lastIndexOf('@');
+        const atPos = host.lastIndexOf('@');
         if (atPos !== -1) {
-            user = dest.substring(0, atPos);
+            user = host.substring(0, atPos);
+            host = host.substring(atPos + 1);
         }
 
-        let port: number | undefined;
-        const colonPos = dest.lastIndexOf(':');
-        if (colonPos !== -1) {
-            port = parseInt(dest.substring(colonPos + 1), 10);
+        // IPv6 addresses need brackets to be followed by a port, e.g. `[::1]:2222`
+        let hostname = host;
+        let portStr: string | undefined;
+        const match = host.match(/^\[([^\]]+)\](?::(.*))?$/) || host.match(/^([^:]*):([^:]*)$/);
+        if (match) {
+            hostname = match[1];
+            portStr = match[2];
         }
 
-        const start = atPos !== -1 ? atPos + 1 : 0;
-        const end = colonPos !== -1 ? colonPos : dest.length;
-        const hostname = dest.substring(start, end);
+        let port: number | undefined;
+        if (portStr !== undefined) {
+            port = Number(portStr);
+            if (!/^\d+$/.test(portStr) || port < 1 || port > 65535) {
+                throw new Error(`Invalid SSH destination '${dest}': invalid port '${portStr}'`);
+            }
+        }
 
-        return new SSHDestination(hostname, user, port);
+        if (!hostname || user === '' || identity === '') {
+            throw new Error(`Invalid SSH destination '${dest}': invalid host '${hostSpec}'`);
+        }
+        return new SSHDestination(hostname, user, port, identity);
     }
 
     toString(): string {
-        let result = this.hostname;
+        let result = this.toHostString();
+        if (this.jumpHosts.length) {
+            const jumpHosts = this.jumpHosts.map(j => j.identity ? `${j.toHostString()}#${j.identity}` : j.toHostString()).join(',');
+            result = result + ` -J ${quoteArg(jumpHosts)}`;
+        }
+        if (this.identity) {
+            result = result + ` -i ${quoteArg(this.identity)}`;
+        }
+        return result;
+    }
+
+    private toHostString(): string {
+        let result = this.hostname.includes(':') && this.port ? `[${this.hostname}]` : this.hostname;
         if (this.user) {
             result = `${this.user}@` + result;
         }
@@ -38,17 +139,50 @@ export default class SSHDestination {
     }
 
     // vscode.uri implementation lowercases the authority, so when reopen or restore
-    // a remote session from the recently openend list the connection fails
+    // a remote session from the recently openend list the connection fails.
+    // Also parses authorities created by older versions: unversioned hex JSON and `\xNN` escaped `user@host:port`
     static parseEncoded(dest: string): SSHDestination {
+        let data: unknown;
         try {
-            const data = JSON.parse(Buffer.from(dest, 'hex').toString());
-            return new SSHDestination(data.hostName, data.user, data.port);
+            data = JSON.parse(Buffer.from(dest, 'hex').toString());
         } catch {
         }
+        if (isDestinationData(data)) {
+            return SSHDestination.fromJSON(data);
+        }
         return SSHDestination.parse(dest.replace(/\\x([0-9a-f]{2})/g, (_, charCode) => String.fromCharCode(parseInt(charCode, 16))));
     }
 
     toEncodedString(): string {
-        return this.toString().replace(/[A-Z]/g, (ch) => `\\x${ch.charCodeAt(0).toString(16).toLowerCase()}`);
+        return Buffer.from(JSON.stringify({ v: ENCODED_FORMAT_VERSION, ...this.toJSON() })).toString('hex');
+    }
+
+    private toJSON(): SSHDestinationData {
+        return {
+            hostName: this.hostname,
+            alias: this.alias,
+            user: this.user,
+            port: this.port,
+            identity: this.identity,
+            jumpHosts: this.jumpHosts.length ? this.jumpHosts.map(j => j.toJSON()) : undefined
+        };
     }
+
+    private static fromJSON(data: SSHDestinationData): SSHDestination {
+        if (typeof data.hostName !== 'string') {
+            throw new Error('Invalid SSH destination');
+        }
+        if (data.v !== undefined && data.v > ENCODED_FORMAT_VERSION) {
+            throw new Error(`Unsupported SSH destination format version ${data.v}`);
+        }
+        return new SSHDestination(data.hostName, data.user, data.port, data.identity, (data.jumpHosts || []).map(j => SSHDestination.fromJSON(j)), data.alias);
+    }
+}
+
+function isDestinationData(data: unknown): data is SSHDestinationData {
+    return !!data && typeof data === 'object' && typeof (data as SSHDestinationData).hostName === 'string';
+}
+
+function quoteArg(value: string) {
+    return /\s/.test(value) ? `"${value}"` : value;
 }
@@ -8,10 +8,14 @@ const webpack = require('webpack');
 /**@type {import('webpack').Configuration}*/
 const config = {
 	target: 'node',
-	entry: './src/extension.ts',
+	entry: {
+		extension: './src/extension.ts',
+		'askpass/askpassMain': './src/askpass/askpassMain.ts',
+		'broker/brokerMain': './src/broker/brokerMain.ts'
+	},
 	output: {
 		path: path.resolve(__dirname, 'out'),
-		filename: 'extension.js',
+		filename: '[name].js',
 		libraryTarget: "commonjs2",
 		devtoolModuleFilenameTemplate: "../[resource-path]",
 	},